@@ -1,15 +1,22 @@
-import express, { Application } from "express";
+import express, { Application, Router } from "express";
 import { router as apiRouter } from "./routes";
+import { metricsRouter } from "./routes/metrics.routes";
 import { notFoundHandler } from "./middlewares/notFound.middleware";
 import { errorHandler } from "./middlewares/error.middleware";
+import { requestId } from "./middlewares/requestId.middleware";
+import { httpMetrics } from "./middlewares/metrics.middleware";
 
-export function createApp(): Application {
+// `api` replaces the production API routes, e.g. with routes over fakes
+export function createApp(api: Router = apiRouter): Application {
   const app = express();
 
+  app.use(requestId);
+  app.use(httpMetrics);
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
-  app.use("/api/v1", apiRouter);
+  app.use("/metrics", metricsRouter);
+  app.use("/api/v1", api);
 
   app.use(notFoundHandler);
   app.use(errorHandler);
@@ -0,0 +1,89 @@
+import { readFileSync } from "fs";
+import { env } from "./env";
+
+export interface ApiClient {
+  name: string; // shown in logs; never the key itself
+  key: string;
+  limit: number; // requests per window
+  windowMs: number;
+}
+
+const positive = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+// "team-a:secret[:limit],team-b:secret". Only the first ":" ends the name,
+// so keys may contain colons; a trailing ":<digits>" is read as the limit.
+// Errors name the entry by position, never by content, so a malformed
+// line can't leak its key into the startup logs
+function parseKeyList(raw: string, variable = "API_KEYS"): ApiClient[] {
+  return raw
+    .split(",")
+    .map((entry, index) => ({ entry: entry.trim(), index }))
+    .filter(({ entry }) => entry)
+    .map(({ entry, index }) => {
+      const separator = entry.indexOf(":");
+      const name = separator < 0 ? "" : entry.slice(0, separator).trim();
+      const rest = separator < 0 ? "" : entry.slice(separator + 1);
+      const withLimit = rest.match(/^(.*):(\d+)$/);
+      const key = (withLimit ? withLimit[1] : rest).trim();
+
+      if (!name || !key) {
+        throw new Error(
+          `Invalid ${variable} entry ${index}: expected name:key[:limit]`
+        );
+      }
+      return {
+        name,
+        key,
+        limit: positive(withLimit?.[2], env.apiKeyQuota),
+        windowMs: env.apiKeyWindowMs,
+      };
+    });
+}
+
+function readKeyFile(file: string): ApiClient[] {
+  const entries = JSON.parse(readFileSync(file, "utf8"));
+  if (!Array.isArray(entries)) {
+    throw new Error(`${file} must contain an array of API keys`);
+  }
+
+  return entries.map((entry, i) => {
+    if (typeof entry?.name !== "string" || typeof entry?.key !== "string") {
+      throw new Error(`${file}: entry ${i} needs a string name and key`);
+    }
+    return {
+      name: entry.name,
+      key: entry.key,
+      limit: positive(entry.limit, env.apiKeyQuota),
+      windowMs: positive(entry.windowMs, env.apiKeyWindowMs),
+    };
+  });
+}
+
+/**
+ * Keys from API_KEYS and API_KEYS_FILE. Misconfiguration throws, so the
+ * server refuses to start rather than running open by accident.
+ */
+export function loadApiKeys(): ApiClient[] {
+  const clients = [
+    ...parseKeyList(env.apiKeys),
+    ...(env.apiKeysFile ? readKeyFile(env.apiKeysFile) : []),
+  ];
+
+  const seen = new Set<string>();
+  for (const client of clients) {
+    if (seen.has(client.key)) {
+      throw new Error(`Duplicate API key configured for ${client.name}`);
+    }
+    seen.add(client.key);
+  }
+
+  return clients;
+}
+
+// Admin keys (ADMIN_API_KEYS) are separate from consumer keys and unmetered
+export function loadAdminKeys(): ApiClient[] {
+  return parseKeyList(env.adminApiKeys, "ADMIN_API_KEYS");
+}
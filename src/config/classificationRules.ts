@@ -0,0 +1,446 @@
+import { readFileSync, unwatchFile, watchFile } from "fs";
+import { env } from "./env";
+import defaultRulesFile from "./classification-rules.json";
+import { asciiFold } from "../utils/asciiFold";
+import { countryRegistry, SupportedCountry } from "./countryRegistry";
+import { WikiLang } from "../utils/constants";
+import { logger } from "../utils/logger";
+
+/**
+ * Word lists and Wikipedia heuristics used to tell cities from everything
+ * else, loaded from a versioned JSON file:
+ *
+ *   { "version": 2,
+ *     "default":   { "facilityWords": [...], ... every list ... },
+ *     "countries": { "DE": { "facilityWords": ["*bahnhof"] }, ... } }
+ *
+ * Country sections extend the default lists. Words match whole words,
+ * case- and diacritic-insensitively; a leading "*" also matches it as the
+ * end of a compound ("*bahnhof" matches "Hauptbahnhof"). Categories are
+ * regular expressions; intro nouns are phrases matched after "is a ...".
+ *
+ * Those category and intro lists only fit English Wikipedia. Other editions
+ * get their own section, used when descriptions are fetched from them:
+ *
+ *   "languages": { "de": { "introLead": "\\b(?:ist|war)\\s+eine?\\s+",
+ *                          "cityIntroNouns": ["*stadt"], ... } }
+ *
+ * `introLead` is the pattern before the noun (the local "is a"); up to four
+ * words may follow it, and "*" nouns match compounds as above.
+ *
+ * Pages that pass are checked against their Wikidata item, whose instance-of
+ * (P31) must be one of, or a direct subclass of, the listed classes:
+ *
+ *   "wikidata": { "cityClasses": ["Q515", "Q1549591", ...] }
+ *
+ * Without that section only the item's country (P17) is checked.
+ */
+export interface RuleLists {
+  facilityWords: string[];
+  adminWords: string[];
+  localityWords: string[];
+  placeholderWords: string[];
+  categoryAllow: string[];
+  categoryDeny: string[];
+  cityIntroNouns: string[];
+  nonCityIntroNouns: string[];
+}
+
+const LIST_NAMES: Array<keyof RuleLists> = [
+  "facilityWords",
+  "adminWords",
+  "localityWords",
+  "placeholderWords",
+  "categoryAllow",
+  "categoryDeny",
+  "cityIntroNouns",
+  "nonCityIntroNouns",
+];
+
+// Wikipedia section for one non-English edition
+export interface LanguageLists {
+  introLead: string;
+  categoryAllow: string[];
+  categoryDeny: string[];
+  cityIntroNouns: string[];
+  nonCityIntroNouns: string[];
+}
+
+const LANGUAGE_LIST_NAMES: Array<keyof LanguageLists> = [
+  "introLead",
+  "categoryAllow",
+  "categoryDeny",
+  "cityIntroNouns",
+  "nonCityIntroNouns",
+];
+
+// Compiled page checks for one Wikipedia edition (validatePageIsCity)
+export interface WikiRules {
+  categoryAllow: RegExp[];
+  categoryDeny: RegExp[];
+  cityIntro: RegExp;
+  nonCityIntro: RegExp;
+}
+
+// Compiled rules for one country, as used by classify / validatePageIsCity.
+// The Wikipedia checks here are the English ones
+export interface CountryRules extends WikiRules {
+  facility: RegExp;
+  admin: RegExp;
+  locality: RegExp;
+  placeholder: RegExp;
+}
+
+interface RuleSet {
+  version: number;
+  source: string;
+  loadedAt: number;
+  countries: Record<SupportedCountry, CountryRules>;
+  languages: Partial<Record<WikiLang, WikiRules>>;
+  cityClasses: ReadonlySet<string> | null;
+}
+
+const escapeRx = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const fold = (s: string) => asciiFold(s, { removePunctuation: false });
+const NEVER = /(?!)/;
+const ITEM_ID = /^Q[1-9]\d*$/;
+
+// One regex per list; names are tested as given and ASCII-folded
+function wordPattern(words: string[]): RegExp {
+  const alternatives = new Set<string>();
+  for (const word of words) {
+    const compound = word.startsWith("*");
+    const bare = compound ? word.slice(1) : word;
+    for (const form of [bare, fold(bare)]) {
+      alternatives.add((compound ? "\\p{L}*" : "") + escapeRx(form));
+    }
+  }
+  if (!alternatives.size) return NEVER;
+
+  const edge = "[\\p{L}\\p{N}]";
+  return new RegExp(
+    `(?<!${edge})(?:${[...alternatives].join("|")})(?!${edge})`,
+    "iu"
+  );
+}
+
+// "is a [up to four words] <noun>", with spaces and hyphens interchangeable
+function introPattern(nouns: string[]): RegExp {
+  if (!nouns.length) return NEVER;
+  const nounRx = nouns
+    .map((n) => escapeRx(n.trim()).replace(/-|\s+/g, "[-\\s]+"))
+    .join("|");
+  return new RegExp(
+    `\\b(is|was|are|were)\\s+(?:an?|the)\\s+(?:[a-z-]+\\s+){0,4}(${nounRx})\\b`,
+    "i"
+  );
+}
+
+// Local "is a" lead, up to four words, then a noun ("*" for compounds)
+function localIntroPattern(lead: string, nouns: string[]): RegExp {
+  const nounRx = nouns
+    .map((n) => {
+      const compound = n.startsWith("*");
+      const bare = escapeRx((compound ? n.slice(1) : n).trim()).replace(
+        /-|\s+/g,
+        "[-\\s]+"
+      );
+      return (compound ? "\\p{L}*" : "") + bare;
+    })
+    .join("|");
+  return new RegExp(
+    `(?:${lead})(?:[\\p{L}-]+\\s+){0,4}(?:${nounRx})(?![\\p{L}\\p{N}])`,
+    "iu"
+  );
+}
+
+const compileCategories = (patterns: string[]) =>
+  patterns.map((rx) => new RegExp(rx, "i"));
+
+function compileLanguage(lists: LanguageLists): WikiRules {
+  return {
+    categoryAllow: compileCategories(lists.categoryAllow),
+    categoryDeny: compileCategories(lists.categoryDeny),
+    cityIntro: lists.cityIntroNouns.length
+      ? localIntroPattern(lists.introLead, lists.cityIntroNouns)
+      : NEVER,
+    nonCityIntro: lists.nonCityIntroNouns.length
+      ? localIntroPattern(lists.introLead, lists.nonCityIntroNouns)
+      : NEVER,
+  };
+}
+
+function compile(lists: RuleLists): CountryRules {
+  return {
+    facility: wordPattern(lists.facilityWords),
+    admin: wordPattern(lists.adminWords),
+    locality: wordPattern(lists.localityWords),
+    placeholder: wordPattern(lists.placeholderWords),
+    categoryAllow: compileCategories(lists.categoryAllow),
+    categoryDeny: compileCategories(lists.categoryDeny),
+    cityIntro: introPattern(lists.cityIntroNouns),
+    nonCityIntro: introPattern(lists.nonCityIntroNouns),
+  };
+}
+
+function parseLists(
+  raw: unknown,
+  where: string,
+  required: boolean
+): Partial<RuleLists> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const lists: Partial<RuleLists> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!LIST_NAMES.includes(name as keyof RuleLists)) {
+      throw new Error(`${where}: unknown list "${name}"`);
+    }
+    if (
+      !Array.isArray(value) ||
+      !value.every((v) => typeof v === "string" && v.trim())
+    ) {
+      throw new Error(
+        `${where}.${name} must be an array of non-empty strings`
+      );
+    }
+    if (name === "categoryAllow" || name === "categoryDeny") {
+      for (const rx of value) {
+        try {
+          new RegExp(rx, "i");
+        } catch {
+          throw new Error(`${where}.${name}: invalid pattern ${rx}`);
+        }
+      }
+    }
+    lists[name as keyof RuleLists] = value.map((v: string) => v.trim());
+  }
+
+  if (required) {
+    const missing = LIST_NAMES.filter((name) => !lists[name]);
+    if (missing.length) {
+      throw new Error(`${where} is missing ${missing.join(", ")}`);
+    }
+  }
+  return lists;
+}
+
+function parseLanguage(raw: unknown, where: string): LanguageLists {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const section = raw as Record<string, unknown>;
+  for (const name of Object.keys(section)) {
+    if (!LANGUAGE_LIST_NAMES.includes(name as keyof LanguageLists)) {
+      throw new Error(`${where}: unknown list "${name}"`);
+    }
+  }
+
+  const { introLead, ...rest } = section;
+  if (typeof introLead !== "string" || !introLead.trim()) {
+    throw new Error(`${where}.introLead must be a non-empty string`);
+  }
+  try {
+    new RegExp(introLead, "iu");
+  } catch {
+    throw new Error(`${where}.introLead: invalid pattern ${introLead}`);
+  }
+
+  const lists = parseLists(rest, where, false);
+  const missing = LANGUAGE_LIST_NAMES.filter(
+    (name) => name !== "introLead" && !lists[name as keyof RuleLists]
+  );
+  if (missing.length) {
+    throw new Error(`${where} is missing ${missing.join(", ")}`);
+  }
+
+  return { introLead, ...lists } as LanguageLists;
+}
+
+function parseWikidata(raw: unknown, where: string): Set<string> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const { cityClasses, ...rest } = raw as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length) {
+    throw new Error(`${where}: unknown list "${unknown[0]}"`);
+  }
+  if (
+    !Array.isArray(cityClasses) ||
+    !cityClasses.length ||
+    !cityClasses.every((id) => typeof id === "string" && ITEM_ID.test(id))
+  ) {
+    throw new Error(
+      `${where}.cityClasses must be a non-empty array of item ids (Q...)`
+    );
+  }
+  return new Set(cityClasses);
+}
+
+// Validate and compile a rules file; throws on the first problem found
+export function parseRules(raw: any, source: string): RuleSet {
+  if (!Number.isInteger(raw?.version) || raw.version < 1) {
+    throw new Error(`${source}: "version" must be a positive integer`);
+  }
+
+  const where = `${source}: default`;
+  const base = parseLists(raw.default, where, true) as RuleLists;
+  const sections = raw.countries ?? {};
+  if (typeof sections !== "object" || Array.isArray(sections)) {
+    throw new Error(`${source}: "countries" must be an object`);
+  }
+  for (const code of Object.keys(sections)) {
+    if (!countryRegistry.has(code)) {
+      throw new Error(`${source}: unsupported country "${code}"`);
+    }
+  }
+
+  const countries = {} as Record<SupportedCountry, CountryRules>;
+  for (const country of countryRegistry.codes) {
+    const section = sections[country];
+    const extra = section
+      ? parseLists(section, `${source}: countries.${country}`, false)
+      : {};
+    const merged = { ...base };
+    for (const name of LIST_NAMES) {
+      merged[name] = [...base[name], ...(extra[name] ?? [])];
+    }
+    countries[country] = compile(merged);
+  }
+
+  const languageSections = raw.languages ?? {};
+  if (
+    typeof languageSections !== "object" ||
+    Array.isArray(languageSections)
+  ) {
+    throw new Error(`${source}: "languages" must be an object`);
+  }
+  const languages: RuleSet["languages"] = {};
+  for (const [lang, section] of Object.entries(languageSections)) {
+    // English checks come from the default and country sections
+    if (lang === "en" || !countryRegistry.wikiLanguages.includes(lang)) {
+      throw new Error(`${source}: unsupported language "${lang}"`);
+    }
+    languages[lang] = compileLanguage(
+      parseLanguage(section, `${source}: languages.${lang}`)
+    );
+  }
+
+  return {
+    version: raw.version,
+    source,
+    loadedAt: Date.now(),
+    countries,
+    languages,
+    cityClasses:
+      raw.wikidata === undefined
+        ? null
+        : parseWikidata(raw.wikidata, `${source}: wikidata`),
+  };
+}
+
+/**
+ * Active rule set. Starts from CLASSIFICATION_RULES_FILE (or the bundled
+ * defaults) and reloads on demand or when the file changes. A file that
+ * fails validation never replaces the active rules: the last good version
+ * stays in effect and the error is reported, so a bad deploy is undone by
+ * simply restoring the previous file.
+ */
+class ClassificationRules {
+  private active: RuleSet;
+  private lastError: { message: string; at: number } | null = null;
+  private watching = false;
+
+  constructor(private readonly file: string) {
+    // An invalid file at startup stops the server instead of running with
+    // rules nobody reviewed
+    this.active = file
+      ? parseRules(JSON.parse(readFileSync(file, "utf8")), file)
+      : parseRules(defaultRulesFile, "built-in defaults");
+  }
+
+  forCountry(country: SupportedCountry): CountryRules {
+    return this.active.countries[country];
+  }
+
+  // Page checks for a Wikipedia edition; null if the rules have none
+  forWiki(country: SupportedCountry, lang: WikiLang): WikiRules | null {
+    if (lang === "en") return this.active.countries[country];
+    return this.active.languages[lang] ?? null;
+  }
+
+  // Wikidata classes a city must be an instance of; null skips that check
+  cityClasses(): ReadonlySet<string> | null {
+    return this.active.cityClasses;
+  }
+
+  // Returns true if a new version became active
+  reload(): boolean {
+    if (!this.file) return false;
+
+    try {
+      const next = parseRules(
+        JSON.parse(readFileSync(this.file, "utf8")),
+        this.file
+      );
+      const previous = this.active.version;
+      this.active = next;
+      this.lastError = null;
+      logger.info("Classification rules reloaded", {
+        file: this.file,
+        version: next.version,
+        previous,
+      });
+      return true;
+    } catch (error: any) {
+      this.lastError = { message: error.message, at: Date.now() };
+      logger.error("Classification rules rejected, keeping active version", {
+        file: this.file,
+        version: this.active.version,
+        error,
+      });
+      return false;
+    }
+  }
+
+  // Poll the file (survives editors and deploys that replace it)
+  watch(intervalMs = 2000): () => void {
+    if (!this.file || this.watching) return () => {};
+    this.watching = true;
+
+    watchFile(this.file, { interval: intervalMs }, (curr, prev) => {
+      if (curr.mtimeMs !== prev.mtimeMs) this.reload();
+    }).unref();
+
+    return () => {
+      unwatchFile(this.file);
+      this.watching = false;
+    };
+  }
+
+  getStatus() {
+    return {
+      version: this.active.version,
+      source: this.active.source,
+      file: this.file || null,
+      loadedAt: new Date(this.active.loadedAt).toISOString(),
+      languages: ["en", ...Object.keys(this.active.languages)],
+      cityClasses: this.active.cityClasses
+        ? [...this.active.cityClasses]
+        : null,
+      watching: this.watching,
+      lastError: this.lastError && {
+        message: this.lastError.message,
+        at: new Date(this.lastError.at).toISOString(),
+      },
+    };
+  }
+}
+
+export const classificationRules = new ClassificationRules(
+  env.classificationRulesFile
+);
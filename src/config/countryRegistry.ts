@@ -0,0 +1,162 @@
+import { readFileSync } from "fs";
+import { env } from "./env";
+import defaultCountriesFile from "./countries.json";
+import type { WikiLang } from "../utils/constants";
+
+/**
+ * Countries the service ranks, loaded from a versioned JSON file:
+ *
+ *   { "version": 1,
+ *     "countries": [
+ *       { "code": "ES", "label": "Spain", "locale": "es",
+ *         "wikidataId": "Q29", "disambiguationSuffix": ", Spain",
+ *         "nameParticles": ["de", "del", "la", "los", "las"] }, ... ] }
+ *
+ * `code` is what the pollution API and our own routes take; the order of
+ * the list is the order countries are listed and crawled in. `label` is
+ * the English name, `locale` drives name casing and sorting, `wikidataId`
+ * is the country item a city's P17 must point to, and the suffix is
+ * appended to a name when an English Wikipedia lookup lands on a
+ * disambiguation page. Particles stay lower case inside a place name
+ * ("Castellón de la Plana", "Boulogne-sur-Mer").
+ *
+ * The language of each `locale` is also a Wikipedia edition descriptions
+ * can be asked for, next to English.
+ *
+ * Unlike the classification rules the registry is read once at startup:
+ * caches, history and the warmer are keyed by these codes.
+ */
+// A code listed in the registry. Branded so that only codes checked with
+// `countryRegistry.has` (or read from the registry) pass for one
+export type SupportedCountry = string & {
+  readonly __brand: "SupportedCountry";
+};
+
+export interface CountryConfig {
+  code: SupportedCountry;
+  label: string;
+  locale: string;
+  wikidataId: string;
+  disambiguationSuffix: string;
+  nameParticles: string[];
+}
+
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+const ITEM_ID = /^Q[1-9]\d*$/;
+
+const nonEmpty = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+function parseCountry(raw: any, where: string): CountryConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+  if (typeof raw.code !== "string" || !COUNTRY_CODE.test(raw.code)) {
+    throw new Error(`${where}.code must be two upper-case letters`);
+  }
+  for (const field of ["label", "locale", "disambiguationSuffix"]) {
+    if (!nonEmpty(raw[field])) {
+      throw new Error(`${where}.${field} must be a non-empty string`);
+    }
+  }
+
+  let locale: string;
+  try {
+    [locale] = Intl.getCanonicalLocales(raw.locale);
+  } catch {
+    throw new Error(`${where}.locale "${raw.locale}" is not a valid locale`);
+  }
+
+  if (typeof raw.wikidataId !== "string" || !ITEM_ID.test(raw.wikidataId)) {
+    throw new Error(`${where}.wikidataId must be an item id (Q...)`);
+  }
+
+  const particles = raw.nameParticles ?? [];
+  if (
+    !Array.isArray(particles) ||
+    !particles.every((p: unknown) => nonEmpty(p) && !/\s/.test(p))
+  ) {
+    throw new Error(`${where}.nameParticles must be an array of single words`);
+  }
+
+  return {
+    code: raw.code as SupportedCountry,
+    label: raw.label.trim(),
+    locale,
+    wikidataId: raw.wikidataId,
+    disambiguationSuffix: raw.disambiguationSuffix,
+    nameParticles: particles.map((p: string) => p.toLocaleLowerCase(locale)),
+  };
+}
+
+// Validate a registry file; throws on the first problem found
+export function parseCountries(raw: any, source: string): CountryConfig[] {
+  if (!Number.isInteger(raw?.version) || raw.version < 1) {
+    throw new Error(`${source}: "version" must be a positive integer`);
+  }
+  if (!Array.isArray(raw.countries) || !raw.countries.length) {
+    throw new Error(`${source}: "countries" must be a non-empty array`);
+  }
+
+  const countries = raw.countries.map((entry: unknown, i: number) =>
+    parseCountry(entry, `${source}: countries[${i}]`)
+  );
+  const seen = new Set<string>();
+  for (const { code } of countries) {
+    if (seen.has(code)) {
+      throw new Error(`${source}: country "${code}" is listed twice`);
+    }
+    seen.add(code);
+  }
+  return countries;
+}
+
+class CountryRegistry {
+  readonly source: string;
+  readonly codes: readonly SupportedCountry[];
+  // Wikipedia editions: English first, then the countries' languages
+  readonly wikiLanguages: readonly WikiLang[];
+  private readonly byCode: Map<string, CountryConfig>;
+
+  constructor(file: string) {
+    // An invalid file stops the server, like invalid classification rules
+    const countries = file
+      ? parseCountries(JSON.parse(readFileSync(file, "utf8")), file)
+      : parseCountries(defaultCountriesFile, "built-in defaults");
+
+    this.source = file || "built-in defaults";
+    this.codes = Object.freeze(countries.map((c) => c.code));
+    this.byCode = new Map(countries.map((c) => [c.code, c]));
+    this.wikiLanguages = Object.freeze([
+      ...new Set([
+        "en",
+        ...countries.map((c) => new Intl.Locale(c.locale).language),
+      ]),
+    ]);
+  }
+
+  has(code: string): code is SupportedCountry {
+    return this.byCode.has(code);
+  }
+
+  list(): CountryConfig[] {
+    return [...this.byCode.values()];
+  }
+
+  // Callers validate codes first; an unknown code is a programming error
+  get(code: SupportedCountry): CountryConfig {
+    const country = this.byCode.get(code);
+    if (!country) throw new Error(`Unknown country "${code}"`);
+    return country;
+  }
+
+  label(code: SupportedCountry): string {
+    return this.get(code).label;
+  }
+
+  locale(code: SupportedCountry): string {
+    return this.get(code).locale;
+  }
+}
+
+export const countryRegistry = new CountryRegistry(env.countriesFile);
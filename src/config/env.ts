@@ -1,10 +1,86 @@
 import dotenv from "dotenv";
+import {
+  API_KEY_QUOTA,
+  CIRCUIT_BREAKER,
+  HISTORY_CONFIG,
+  LOG_LEVELS,
+  LogLevel,
+} from "../utils/constants";
 
 dotenv.config();
 
 export const env = {
   nodeEnv: process.env.NODE_ENV || "production",
   port: Number(process.env.PORT) || 3000,
+  // debug | info | warn | error
+  logLevel: (LOG_LEVELS.includes(process.env.LOG_LEVEL as LogLevel)
+    ? process.env.LOG_LEVEL
+    : "info") as LogLevel,
   polluApiUsername: process.env.POLLU_API_USERNAME,
   polluApiPassword: process.env.POLLU_API_PASSWORD,
+  // "memory" (per instance) or "redis" (shared, falls back to memory)
+  cacheBackend: (process.env.CACHE_BACKEND === "redis" ? "redis" : "memory") as
+    | "memory"
+    | "redis",
+  redisUrl: process.env.REDIS_URL || "redis://localhost:6379",
+  redisKeyPrefix: process.env.REDIS_KEY_PREFIX || "cities",
+  // Empty disables cache snapshots to disk
+  cacheSnapshotFile: process.env.CACHE_SNAPSHOT_FILE || "",
+  cacheSnapshotIntervalMs:
+    Number(process.env.CACHE_SNAPSHOT_INTERVAL_MS) || 5 * 60 * 1000,
+  // Country registry JSON (read at startup); empty uses the bundled
+  // src/config/countries.json
+  countriesFile: process.env.COUNTRIES_FILE || "",
+  // Classification rules JSON (watched for changes); empty uses the
+  // bundled src/config/classification-rules.json
+  classificationRulesFile: process.env.CLASSIFICATION_RULES_FILE || "",
+  // Saved city overrides (admin API); empty keeps them in memory only
+  cityOverridesFile: process.env.CITY_OVERRIDES_FILE || "",
+  // Pollution snapshots of completed crawls (JSON lines, append-only);
+  // set it empty to keep them in memory only
+  historyFile: process.env.HISTORY_FILE ?? HISTORY_CONFIG.FILE,
+  historyRetentionDays:
+    Number(process.env.HISTORY_RETENTION_DAYS) ||
+    HISTORY_CONFIG.RETENTION_DAYS,
+  historyMaxSnapshots:
+    Number(process.env.HISTORY_MAX_SNAPSHOTS) ||
+    HISTORY_CONFIG.MAX_SNAPSHOTS,
+  // Background refresh-ahead of every supported country's cache
+  warmerEnabled: process.env.WARMER_ENABLED !== "false",
+  // "name:key[:limit]" pairs, comma-separated, and/or a JSON file of
+  // { name, key, limit?, windowMs? }; no keys at all disables API key auth
+  apiKeys: process.env.API_KEYS || "",
+  apiKeysFile: process.env.API_KEYS_FILE || "",
+  apiKeyQuota: Number(process.env.API_KEY_QUOTA) || API_KEY_QUOTA.LIMIT,
+  apiKeyWindowMs:
+    Number(process.env.API_KEY_WINDOW_MS) || API_KEY_QUOTA.WINDOW_MS,
+  // "name:key" pairs for the admin API; empty disables it
+  adminApiKeys: process.env.ADMIN_API_KEYS || "",
+  polluBreaker: {
+    failureThreshold:
+      Number(process.env.POLLU_BREAKER_FAILURE_THRESHOLD) ||
+      CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+    resetTimeoutMs:
+      Number(process.env.POLLU_BREAKER_RESET_MS) ||
+      CIRCUIT_BREAKER.RESET_TIMEOUT_MS,
+    halfOpenMaxCalls: CIRCUIT_BREAKER.HALF_OPEN_MAX_CALLS,
+  },
+  wikiBreaker: {
+    failureThreshold:
+      Number(process.env.WIKI_BREAKER_FAILURE_THRESHOLD) ||
+      CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+    resetTimeoutMs:
+      Number(process.env.WIKI_BREAKER_RESET_MS) ||
+      CIRCUIT_BREAKER.RESET_TIMEOUT_MS,
+    halfOpenMaxCalls: CIRCUIT_BREAKER.HALF_OPEN_MAX_CALLS,
+  },
+  wikidataBreaker: {
+    failureThreshold:
+      Number(process.env.WIKIDATA_BREAKER_FAILURE_THRESHOLD) ||
+      CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+    resetTimeoutMs:
+      Number(process.env.WIKIDATA_BREAKER_RESET_MS) ||
+      CIRCUIT_BREAKER.RESET_TIMEOUT_MS,
+    halfOpenMaxCalls: CIRCUIT_BREAKER.HALF_OPEN_MAX_CALLS,
+  },
 };
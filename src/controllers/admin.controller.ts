@@ -0,0 +1,238 @@
+import { Request, Response, NextFunction } from "express";
+import { CacheAdmin } from "../services/cache.admin";
+import { classificationRules } from "../config/classificationRules";
+import { cityOverrides } from "../services/city.overrides";
+import { AppError } from "../errors/AppError";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { logger } from "../utils/logger";
+
+const parseCountry = (raw: unknown): SupportedCountry | null => {
+  const code = String(raw || "").toUpperCase();
+  return countryRegistry.has(code) ? code : null;
+};
+
+const countryError = {
+  error: `Invalid country. Use one of: ${countryRegistry.codes.join(", ")}`,
+};
+
+const positiveInt = (raw: unknown, fallback: number): number | null => {
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 1 ? n : null;
+};
+
+const OVERRIDE_FIELDS = [
+  "action",
+  "wikiTitle",
+  "displayName",
+  "aliasOf",
+  "note",
+];
+
+export class AdminController {
+  constructor(private readonly admin: CacheAdmin) {}
+
+  getCache = async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await this.admin.getOverview());
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  invalidateCountry = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const country = parseCountry(req.params.country);
+      if (!country) return res.status(400).json(countryError);
+
+      const removed = await this.admin.invalidateCountry(country);
+      res.json({ country, removed });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  invalidatePollutionPage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const country = parseCountry(req.params.country);
+      if (!country) return res.status(400).json(countryError);
+
+      // Pages are cached per upstream `limit`; crawls always fetch 50
+      const page = positiveInt(req.params.page, 1);
+      const limit = positiveInt(req.query.limit, 50);
+      if (page === null || limit === null) {
+        return res
+          .status(400)
+          .json({ error: "page and limit must be positive integers" });
+      }
+
+      const removed = await this.admin.invalidatePollutionPage(
+        country,
+        page,
+        limit
+      );
+      res.json({ country, page, limit, removed });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  invalidateWikiTitle = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const title = String(req.params.title || "").trim();
+      if (!title) return res.status(400).json({ error: "Missing title" });
+
+      const result = await this.admin.invalidateWikiTitle(title);
+      res.json({ title, ...result });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  rebuildCountry = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const country = parseCountry(req.params.country);
+      if (!country) return res.status(400).json(countryError);
+
+      const started = this.admin.rebuild(country);
+      res
+        .status(202)
+        .json({ country, status: started ? "started" : "already-running" });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  listOverrides = (req: Request, res: Response) => {
+    const country =
+      req.query.country === undefined
+        ? undefined
+        : parseCountry(req.query.country);
+    if (country === null) return res.status(400).json(countryError);
+
+    const overrides = cityOverrides.list(country);
+    res.json({ count: overrides.length, overrides });
+  };
+
+  getOverride = (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const country = parseCountry(req.params.country);
+      if (!country) return res.status(400).json(countryError);
+
+      const name = String(req.params.name);
+      const entry = cityOverrides.get(country, name);
+      if (!entry) throw AppError.notFound(`No override for "${name}"`);
+      res.json(entry);
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  // Create or replace; the country is rebuilt so rankings pick it up
+  putOverride = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const country = parseCountry(req.params.country);
+      if (!country) return res.status(400).json(countryError);
+
+      const body = req.body;
+      if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return res.status(400).json({ error: "Expected a JSON object" });
+      }
+      const unknown = Object.keys(body).filter(
+        (field) => !OVERRIDE_FIELDS.includes(field)
+      );
+      if (unknown.length) {
+        return res.status(400).json({
+          error: `Unknown fields: ${unknown.join(", ")}. Use: ${OVERRIDE_FIELDS.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const { entry, previous } = await cityOverrides.set(
+        country,
+        String(req.params.name),
+        body
+      );
+      const started = await this.admin.applyOverride(country, [
+        previous,
+        entry,
+      ]);
+      res.status(previous ? 200 : 201).json({
+        override: entry,
+        rebuild: started ? "started" : "already-running",
+      });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  deleteOverride = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const country = parseCountry(req.params.country);
+      if (!country) return res.status(400).json(countryError);
+
+      const name = String(req.params.name);
+      const removed = await cityOverrides.remove(country, name);
+      if (!removed) throw AppError.notFound(`No override for "${name}"`);
+
+      const started = await this.admin.applyOverride(country, [removed]);
+      res.json({
+        removed,
+        rebuild: started ? "started" : "already-running",
+      });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  getRules = (_req: Request, res: Response) => {
+    res.json(classificationRules.getStatus());
+  };
+
+  // A rejected file leaves the active rules in place (422 with the reason)
+  reloadRules = (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!classificationRules.getStatus().file) {
+        return res
+          .status(400)
+          .json({ error: "No CLASSIFICATION_RULES_FILE configured" });
+      }
+
+      if (!classificationRules.reload()) {
+        const current = classificationRules.getStatus();
+        return res
+          .status(422)
+          .json({ error: current.lastError?.message, rules: current });
+      }
+      res.json(classificationRules.getStatus());
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+}
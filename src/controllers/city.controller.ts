@@ -1,30 +1,265 @@
 import { Request, Response, NextFunction } from "express";
-import { CityService } from "../services/city.service";
 import {
-  SUPPORTED_COUNTRIES,
-  SupportedCountry,
+  CityService,
+  CityResult,
+  RankingOptions,
+  toRankingView,
+} from "../services/city.service";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import {
   API_LIMITS,
-  COUNTRY_LABELS,
+  SEARCH_LIMITS,
+  EXPLAIN_LIMITS,
+  CONSISTENCY_MODES,
+  Consistency,
+  CITY_SORTS,
+  CitySort,
+  WikiLang,
+  NEARBY_LIMITS,
+  NEARBY_SORTS,
+  NearbySort,
 } from "../utils/constants";
+import { cursorMatches, decodeCursor } from "../utils/cursor";
+import {
+  CITY_FORMATS,
+  CityFormat,
+  CityRow,
+  ENVELOPE_FORMATS,
+  toCsv,
+  toGeoJson,
+  toNdjson,
+} from "../utils/cityFormats";
+import { parseDate } from "../utils/parseDate";
+import { logger } from "../utils/logger";
+
+const toCityDto = (city: CityResult): CityRow => ({
+  name: city.city,
+  country: countryRegistry.label(city.country),
+  pollution: city.pollution,
+  description: city.description,
+  descriptionLang:
+    city.description === null ? null : city.descriptionLang ?? "en",
+  population: city.population ?? null,
+  officialName: city.officialName ?? null,
+  lat: city.coordinates?.lat ?? null,
+  lon: city.coordinates?.lon ?? null,
+});
+
+// "PL", "PL,DE,FR" or "ALL" -> de-duplicated list in registry order
+const parseCountries = (raw: unknown): SupportedCountry[] | null => {
+  const codes = String(raw || "")
+    .toUpperCase()
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+
+  if (codes.length === 0) return null;
+  if (codes.includes("ALL")) return [...countryRegistry.codes];
+  if (!codes.every((c) => countryRegistry.has(c))) return null;
+
+  return countryRegistry.codes.filter((c) => codes.includes(c));
+};
+
+// `format=` wins over the Accept header; null when nothing acceptable
+const negotiateFormat = (req: Request): CityFormat | null => {
+  if (req.query.format !== undefined) {
+    const format = String(req.query.format).toLowerCase();
+    return format in CITY_FORMATS ? (format as CityFormat) : null;
+  }
+
+  const accepted = req.accepts(Object.values(CITY_FORMATS));
+  if (!accepted) return null;
+  return (Object.keys(CITY_FORMATS) as CityFormat[]).find(
+    (f) => CITY_FORMATS[f] === accepted
+  )!;
+};
+
+// `lang=` wins over Accept-Language; null when `lang` is unsupported
+const negotiateLang = (req: Request): WikiLang | null => {
+  if (req.query.lang !== undefined) {
+    const lang = String(req.query.lang).toLowerCase();
+    return countryRegistry.wikiLanguages.includes(lang) ? lang : null;
+  }
+  return req.acceptsLanguages([...countryRegistry.wikiLanguages]) || "en";
+};
+
+// Missing or blank is NaN, not 0
+const parseCoordinate = (raw: unknown): number =>
+  raw === undefined || !String(raw).trim() ? NaN : Number(raw);
+
+const langError = {
+  error: `Invalid lang. Use one of: ${countryRegistry.wikiLanguages.join(
+    ", "
+  )}`,
+};
+
+// Descriptions follow the negotiated Wikipedia edition
+const setLanguage = (res: Response, lang: WikiLang) => {
+  res.vary("Accept-Language");
+  res.set("Content-Language", lang);
+};
+
+const META_HEADERS: Record<string, string> = {
+  page: "X-Page",
+  limit: "X-Limit",
+  hasMore: "X-Has-More",
+  nextCursor: "X-Next-Cursor",
+  consistency: "X-Consistency",
+  sort: "X-Sort",
+  isComplete: "X-Is-Complete",
+  stale: "X-Stale",
+};
+
+const sendCityList = (
+  res: Response,
+  format: CityFormat,
+  meta: Record<string, unknown>,
+  rows: CityRow[]
+) => {
+  res.vary("Accept");
+
+  if (!ENVELOPE_FORMATS.includes(format)) {
+    for (const [field, header] of Object.entries(META_HEADERS)) {
+      if (meta[field] !== undefined && meta[field] !== null) {
+        res.set(header, String(meta[field]));
+      }
+    }
+  }
+
+  switch (format) {
+    case "csv":
+      return res.type(CITY_FORMATS.csv).send(toCsv(rows));
+    case "ndjson":
+      return res.type(CITY_FORMATS.ndjson).send(toNdjson(rows));
+    case "geojson":
+      return res.type(CITY_FORMATS.geojson).send(toGeoJson(rows, meta));
+    default:
+      return res.json({ ...meta, cities: rows });
+  }
+};
+
+// consistency, sort and pollution range; returns an error message if invalid
+const parseRankingOptions = (
+  query: Request["query"]
+): { options: RankingOptions } | { error: string } => {
+  const consistency = String(query.consistency || "fast").toLowerCase();
+  if (!CONSISTENCY_MODES.includes(consistency as Consistency)) {
+    return {
+      error: `Invalid consistency. Use one of: ${CONSISTENCY_MODES.join(", ")}`,
+    };
+  }
+
+  const sort = String(query.sort || "pollution_desc").toLowerCase();
+  if (!CITY_SORTS.includes(sort as CitySort)) {
+    return { error: `Invalid sort. Use one of: ${CITY_SORTS.join(", ")}` };
+  }
+
+  const bounds: { minPollution?: number; maxPollution?: number } = {};
+  for (const name of ["minPollution", "maxPollution"] as const) {
+    if (query[name] === undefined) continue;
+    const value = Number(query[name]);
+    if (String(query[name]).trim() === "" || !Number.isFinite(value)) {
+      return { error: `${name} must be a number` };
+    }
+    bounds[name] = value;
+  }
+
+  if (
+    bounds.minPollution !== undefined &&
+    bounds.maxPollution !== undefined &&
+    bounds.minPollution > bounds.maxPollution
+  ) {
+    return { error: "minPollution must not exceed maxPollution" };
+  }
+
+  return {
+    options: {
+      consistency: consistency as Consistency,
+      sort: sort as CitySort,
+      ...bounds,
+    },
+  };
+};
 
 export class CityController {
   constructor(private readonly service: CityService) {}
 
   getCities = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const country = String(req.query.country || "").toUpperCase();
+      const format = negotiateFormat(req);
+      if (!format) {
+        return res.status(406).json({
+          error: `Unsupported format. Use one of: ${Object.keys(
+            CITY_FORMATS
+          ).join(", ")}`,
+        });
+      }
+
+      const lang = negotiateLang(req);
+      if (!lang) return res.status(400).json(langError);
 
-      if (!SUPPORTED_COUNTRIES.includes(country as SupportedCountry)) {
+      const countries = parseCountries(req.query.country);
+
+      if (!countries) {
         return res.status(400).json({
-          error: `Invalid or missing country. Use one of: ${SUPPORTED_COUNTRIES.join(
+          error: `Invalid or missing country. Use one of: ${countryRegistry.codes.join(
             ", "
-          )}`,
+          )}, a comma-separated list of them, or ALL`,
         });
       }
 
       const limit = req.query.limit
         ? Number(req.query.limit)
         : API_LIMITS.DEFAULT_CITY_LIMIT;
+      const safeLimit = isNaN(limit) ? API_LIMITS.DEFAULT_CITY_LIMIT : limit;
+
+      const parsed = parseRankingOptions(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { options } = parsed;
+
+      // Cursor mode: opaque position inside a ranking snapshot
+      if (req.query.cursor !== undefined) {
+        if (req.query.page !== undefined) {
+          return res
+            .status(400)
+            .json({ error: "Use either page or cursor, not both" });
+        }
+
+        const cursor = decodeCursor(String(req.query.cursor));
+        if (
+          !cursor ||
+          !cursorMatches(cursor, countries, toRankingView(options))
+        ) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+
+        const result = await this.service.getMostPollutedByCursor(
+          countries,
+          safeLimit,
+          cursor,
+          options
+        );
+        const cities = await this.service.localizeCities(result.cities, lang);
+
+        setLanguage(res, lang);
+        return sendCityList(
+          res,
+          format,
+          {
+            limit: result.cities.length,
+            hasMore: result.hasMore,
+            nextCursor: result.nextCursor,
+            consistency: options.consistency,
+            sort: options.sort,
+            isComplete: result.isComplete,
+            stale: result.stale,
+          },
+          cities.map((city) => toCityDto(city))
+        );
+      }
+
       const page = req.query.page ? Number(req.query.page) : 1;
 
       // Validate page and limit
@@ -33,24 +268,287 @@ export class CityController {
       }
 
       const result = await this.service.getMostPollutedByCountry(
-        country as SupportedCountry,
-        isNaN(limit) ? API_LIMITS.DEFAULT_CITY_LIMIT : limit,
-        isNaN(page) ? 1 : page
+        countries,
+        safeLimit,
+        isNaN(page) ? 1 : page,
+        options
+      );
+      const cities = await this.service.localizeCities(result.cities, lang);
+
+      setLanguage(res, lang);
+      sendCityList(
+        res,
+        format,
+        {
+          page,
+          limit: result.cities.length,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
+          consistency: options.consistency,
+          sort: options.sort,
+          isComplete: result.isComplete,
+          stale: result.stale,
+        },
+        cities.map((city) => toCityDto(city))
+      );
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  searchCities = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = String(req.query.q || "").trim();
+
+      if (
+        query.length < SEARCH_LIMITS.MIN_QUERY_LENGTH ||
+        query.length > SEARCH_LIMITS.MAX_QUERY_LENGTH
+      ) {
+        return res.status(400).json({
+          error: `Query "q" must be ${SEARCH_LIMITS.MIN_QUERY_LENGTH}-${SEARCH_LIMITS.MAX_QUERY_LENGTH} characters`,
+        });
+      }
+
+      // Search every supported country unless narrowed down
+      const countries =
+        req.query.country === undefined
+          ? [...countryRegistry.codes]
+          : parseCountries(req.query.country);
+
+      if (!countries) {
+        return res.status(400).json({
+          error: `Invalid country. Use one of: ${countryRegistry.codes.join(
+            ", "
+          )}, a comma-separated list of them, or ALL`,
+        });
+      }
+
+      const lang = negotiateLang(req);
+      if (!lang) return res.status(400).json(langError);
+
+      const limit = req.query.limit
+        ? Number(req.query.limit)
+        : API_LIMITS.DEFAULT_CITY_LIMIT;
+
+      const { hits, stale } = await this.service.searchCities(
+        query,
+        countries,
+        isNaN(limit) ? API_LIMITS.DEFAULT_CITY_LIMIT : limit
+      );
+      const localized = await this.service.localizeCities(hits, lang);
+
+      setLanguage(res, lang);
+      res.json({
+        query,
+        count: hits.length,
+        stale,
+        cities: localized.map((hit) => ({
+          ...toCityDto(hit),
+          match: hit.match.kind,
+        })),
+      });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  // Validated cities around a point, across every supported country
+  nearbyCities = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const lat = parseCoordinate(req.query.lat);
+      const lon = parseCoordinate(req.query.lon);
+      if (
+        !Number.isFinite(lat) ||
+        !Number.isFinite(lon) ||
+        Math.abs(lat) > 90 ||
+        Math.abs(lon) > 180
+      ) {
+        return res.status(400).json({
+          error: "lat (-90 to 90) and lon (-180 to 180) are required",
+        });
+      }
+
+      const radiusKm =
+        req.query.radiusKm === undefined
+          ? NEARBY_LIMITS.DEFAULT_RADIUS_KM
+          : Number(req.query.radiusKm);
+      if (
+        !Number.isFinite(radiusKm) ||
+        radiusKm <= 0 ||
+        radiusKm > NEARBY_LIMITS.MAX_RADIUS_KM
+      ) {
+        return res.status(400).json({
+          error: `radiusKm must be greater than 0 and at most ${NEARBY_LIMITS.MAX_RADIUS_KM}`,
+        });
+      }
+
+      const sort = String(req.query.sort || "distance").toLowerCase();
+      if (!NEARBY_SORTS.includes(sort as NearbySort)) {
+        return res.status(400).json({
+          error: `Invalid sort. Use one of: ${NEARBY_SORTS.join(", ")}`,
+        });
+      }
+
+      const lang = negotiateLang(req);
+      if (!lang) return res.status(400).json(langError);
+
+      const limit = req.query.limit
+        ? Number(req.query.limit)
+        : API_LIMITS.DEFAULT_CITY_LIMIT;
+
+      const { cities, isComplete, stale } = await this.service.findNearby(
+        { lat, lon },
+        radiusKm,
+        {
+          sort: sort as NearbySort,
+          limit: isNaN(limit) ? API_LIMITS.DEFAULT_CITY_LIMIT : limit,
+        }
       );
+      const localized = await this.service.localizeCities(cities, lang);
 
+      setLanguage(res, lang);
       res.json({
-        page,
-        limit: result.cities.length,
-        hasMore: result.hasMore,
-        cities: result.cities.map((city) => ({
-          name: city.city,
-          country: COUNTRY_LABELS[country as SupportedCountry],
-          pollution: city.pollution,
-          description: city.description,
+        lat,
+        lon,
+        radiusKm,
+        sort,
+        count: cities.length,
+        isComplete,
+        stale,
+        cities: localized.map((city) => ({
+          ...toCityDto(city),
+          distanceKm: Math.round(city.distanceKm * 10) / 10,
         })),
       });
     } catch (err) {
-      console.error(err);
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  // Filtering decision trail for one country, optionally one name (from
+  // the path or `name`)
+  explainCities = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const country = String(req.query.country || "").toUpperCase();
+
+      if (!countryRegistry.has(country)) {
+        return res.status(400).json({
+          error: `Invalid or missing country. Use one of: ${countryRegistry.codes.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const raw = req.params.name ?? req.query.name;
+      const name = raw === undefined ? undefined : String(raw).trim();
+      if (name !== undefined && !name) {
+        return res.status(400).json({ error: "name must not be empty" });
+      }
+
+      const pages =
+        req.query.pages === undefined ? undefined : Number(req.query.pages);
+      if (
+        pages !== undefined &&
+        (!Number.isInteger(pages) ||
+          pages < 1 ||
+          pages > EXPLAIN_LIMITS.MAX_PAGES)
+      ) {
+        return res.status(400).json({
+          error: `pages must be an integer from 1 to ${EXPLAIN_LIMITS.MAX_PAGES}`,
+        });
+      }
+
+      const result = await this.service.explainCities(country, {
+        name,
+        pages,
+      });
+
+      res.json({ country, name: name ?? null, ...result });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  getCity = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const country = String(req.params.country || "").toUpperCase();
+
+      if (!countryRegistry.has(country)) {
+        return res.status(400).json({
+          error: `Invalid country. Use one of: ${countryRegistry.codes.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const lang = negotiateLang(req);
+      if (!lang) return res.status(400).json(langError);
+
+      const detail = await this.service.getCityDetail(
+        country,
+        String(req.params.name)
+      );
+      const [city] = await this.service.localizeCities([detail], lang);
+
+      setLanguage(res, lang);
+      res.json({
+        ...toCityDto(city),
+        rank: city.rank,
+        totalRanked: city.totalRanked,
+        classification: city.classification,
+        stale: city.stale,
+      });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  // Recorded pollution of one city over time
+  getCityHistory = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const country = String(req.params.country || "").toUpperCase();
+
+      if (!countryRegistry.has(country)) {
+        return res.status(400).json({
+          error: `Invalid country. Use one of: ${countryRegistry.codes.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const from = parseDate(req.query.from) ?? 0;
+      const to = parseDate(req.query.to) ?? Date.now();
+      if (Number.isNaN(from) || Number.isNaN(to)) {
+        return res
+          .status(400)
+          .json({ error: "from and to must be ISO 8601 dates" });
+      }
+      if (from > to) {
+        return res.status(400).json({ error: "from must not be after to" });
+      }
+
+      const { city, points } = this.service.getCityHistory(
+        country,
+        String(req.params.name),
+        from,
+        to
+      );
+
+      res.json({
+        name: city,
+        country: countryRegistry.label(country),
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        count: points.length,
+        points,
+      });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
       next(err);
     }
   };
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from "express";
+import { CityService } from "../services/city.service";
+import { CacheAdmin } from "../services/cache.admin";
+import { CacheWarmer } from "../services/cache.warmer";
+import { pollutionHistory } from "../services/pollution.history";
+import { countryRegistry } from "../config/countryRegistry";
+import { HISTORY_CONFIG } from "../utils/constants";
+import { parseDate } from "../utils/parseDate";
+import { logger } from "../utils/logger";
+
+export class CountryController {
+  constructor(
+    private readonly service: CityService,
+    private readonly admin: CacheAdmin,
+    private readonly warmer: CacheWarmer
+  ) {}
+
+  // Registry entries with their cache, crawl and history state
+  listCountries = async (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const warmer = this.warmer.getStatus();
+      const crawls = new Map(warmer.countries.map((s) => [s.country, s]));
+
+      const countries = [];
+      for (const country of countryRegistry.list()) {
+        const { country: _code, rebuilding, ...cache } =
+          await this.admin.countryState(country.code);
+        const crawl = crawls.get(country.code);
+        countries.push({
+          code: country.code,
+          label: country.label,
+          locale: country.locale,
+          cache,
+          crawl: {
+            rebuilding,
+            outcome: crawl?.outcome ?? "never",
+            lastRunAt: crawl?.lastRunAt ?? null,
+            lastDurationMs: crawl?.lastDurationMs ?? null,
+            error: crawl?.error ?? null,
+          },
+          history: pollutionHistory.summary(country.code),
+        });
+      }
+
+      res.json({
+        count: countries.length,
+        warmerRunning: warmer.running,
+        countries,
+      });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+
+  // Biggest pollution risers and fallers between two recorded crawls
+  getChanges = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const country = String(req.params.code || "").toUpperCase();
+
+      if (!countryRegistry.has(country)) {
+        return res.status(400).json({
+          error: `Invalid country. Use one of: ${countryRegistry.codes.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const from = parseDate(req.query.from);
+      const to = parseDate(req.query.to);
+      if (Number.isNaN(from) || Number.isNaN(to)) {
+        return res
+          .status(400)
+          .json({ error: "from and to must be ISO 8601 dates" });
+      }
+      if (from !== undefined && to !== undefined && from > to) {
+        return res.status(400).json({ error: "from must not be after to" });
+      }
+
+      const limit =
+        req.query.limit === undefined
+          ? HISTORY_CONFIG.DEFAULT_CHANGES
+          : Number(req.query.limit);
+      if (
+        !Number.isInteger(limit) ||
+        limit < 1 ||
+        limit > HISTORY_CONFIG.MAX_CHANGES
+      ) {
+        return res.status(400).json({
+          error: `limit must be an integer from 1 to ${HISTORY_CONFIG.MAX_CHANGES}`,
+        });
+      }
+
+      const changes = this.service.getCountryChanges(
+        country,
+        { from, to, limit }
+      );
+
+      res.json({
+        country,
+        label: countryRegistry.label(country),
+        ...changes,
+      });
+    } catch (err) {
+      logger.error("Request failed", { error: err });
+      next(err);
+    }
+  };
+}
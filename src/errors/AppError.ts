@@ -14,7 +14,19 @@ export class AppError extends Error {
     return new AppError(message, 400);
   }
 
+  static unauthorized(message: string) {
+    return new AppError(message, 401);
+  }
+
+  static forbidden(message: string) {
+    return new AppError(message, 403);
+  }
+
   static notFound(message: string) {
     return new AppError(message, 404);
   }
+
+  static tooManyRequests(message: string) {
+    return new AppError(message, 429);
+  }
 }
@@ -0,0 +1,18 @@
+import { AppError } from "./AppError";
+
+// Thrown instead of calling an upstream API whose circuit is open
+export class CircuitOpenError extends AppError {
+  public readonly circuit: string;
+  public readonly retryAt: number;
+
+  constructor(circuit: string, retryAt: number) {
+    super(
+      `${circuit} API unavailable (circuit open), retry after ${new Date(
+        retryAt
+      ).toISOString()}`,
+      503
+    );
+    this.circuit = circuit;
+    this.retryAt = retryAt;
+  }
+}
@@ -1,11 +1,20 @@
 import axios from "axios";
 import { env } from "../config/env";
 import { cacheService } from "../services/cache.service";
+import { SupportedCountry } from "../config/countryRegistry";
+import { RATE_LIMITS, EXTERNAL_APIS } from "../utils/constants";
+import { SingleFlight } from "../utils/singleFlight";
 import {
-  SupportedCountry,
-  RATE_LIMITS,
-  EXTERNAL_APIS,
-} from "../utils/constants";
+  CircuitBreaker,
+  CircuitBreakerStatus,
+} from "../utils/circuitBreaker";
+import {
+  RateLimiter,
+  RequestPriority,
+  parseRetryAfter,
+} from "../utils/rateLimiter";
+import { logger } from "../utils/logger";
+import { observeUpstream, upstreamRetries } from "../utils/metrics";
 
 interface LoginResponse {
   token: string;
@@ -36,14 +45,21 @@ export class PolluApiClient {
   private refreshToken: string | null = null;
   private axiosInstance: any;
 
-  // Rate limiting properties - 5 requests per 10 seconds
-
-  private requestTimes: number[] = [];
-  private readonly MAX_REQUESTS_PER_WINDOW =
-    RATE_LIMITS.POLLUTION_API.MAX_REQUESTS;
-  private readonly WINDOW_SIZE_MS = RATE_LIMITS.POLLUTION_API.WINDOW_MS;
+  // Every upstream call (auth included) takes a slot: 5 requests per 10s
+  private limiter = new RateLimiter({
+    maxRequests: RATE_LIMITS.POLLUTION_API.MAX_REQUESTS,
+    windowMs: RATE_LIMITS.POLLUTION_API.WINDOW_MS,
+    backgroundReserve: RATE_LIMITS.POLLUTION_API.BACKGROUND_RESERVE,
+  });
   private readonly MAX_RETRIES = RATE_LIMITS.POLLUTION_API.MAX_RETRIES;
 
+  // Concurrent misses for the same page (or token) share one upstream call
+  private pageFlights = new SingleFlight<PollutionResponse>();
+  private tokenFlight = new SingleFlight<string>();
+
+  // Fails fast while the API is down instead of running the retry loop
+  private breaker = new CircuitBreaker("pollution", env.polluBreaker);
+
   constructor(
     private readonly username: string = env.polluApiUsername!,
     private readonly password: string = env.polluApiPassword!
@@ -56,45 +72,35 @@ export class PolluApiClient {
     });
   }
 
-  private async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  private async rateLimitedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-    // Clean old request times outside the window
-    const now = Date.now();
-    this.requestTimes = this.requestTimes.filter(
-      (time) => now - time < this.WINDOW_SIZE_MS
-    );
-
-    // If we've made 5 requests in the last 10 seconds, wait
-    if (this.requestTimes.length >= this.MAX_REQUESTS_PER_WINDOW) {
-      const oldestRequest = Math.min(...this.requestTimes);
-      const waitTime = this.WINDOW_SIZE_MS - (now - oldestRequest);
-
-      if (waitTime > 0) {
-        console.log(`Rate limit: waiting ${waitTime}ms before next request...`);
-        await this.sleep(waitTime + 100); // Add small buffer
-      }
-    }
-
-    // Record this request time
-    this.requestTimes.push(Date.now());
-
+  // `operation` labels the upstream metrics (login | refresh | fetch)
+  private async rateLimitedRequest<T>(
+    requestFn: () => Promise<T>,
+    operation: string,
+    priority: RequestPriority
+  ): Promise<T> {
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      // Every attempt, retries included, waits for its own slot
+      await this.limiter.acquire(priority);
+
       try {
-        return await requestFn();
+        return await observeUpstream("pollution", operation, requestFn);
       } catch (error: any) {
         if (error.response?.status === 429) {
           // Rate limited - implement exponential backoff
-          const retryAfter = error.response.headers["retry-after"];
-          const backoffDelay = retryAfter
-            ? parseInt(retryAfter) * 1000
-            : Math.min(2000 * Math.pow(2, attempt - 1), 30000);
-
-          console.warn(
-            `Rate limited (429). Attempt ${attempt}/${this.MAX_RETRIES}. Waiting ${backoffDelay}ms...`
+          const retryAfter = parseRetryAfter(
+            error.response.headers?.["retry-after"]
           );
+          const backoffDelay =
+            retryAfter ?? Math.min(2000 * Math.pow(2, attempt - 1), 30000);
+
+          logger.warn("Rate limited (429), pausing all requests", {
+            attempt,
+            maxRetries: this.MAX_RETRIES,
+            backoffMs: backoffDelay,
+          });
+
+          // The limit applies to the whole client, not just this call
+          this.limiter.pauseUntil(Date.now() + backoffDelay);
 
           if (attempt === this.MAX_RETRIES) {
             throw new Error(
@@ -102,7 +108,7 @@ export class PolluApiClient {
             );
           }
 
-          await this.sleep(backoffDelay);
+          upstreamRetries.inc({ api: "pollution", operation });
           continue;
         }
 
@@ -113,18 +119,29 @@ export class PolluApiClient {
     throw new Error("Unexpected error in rate limited request");
   }
 
-  private async ensureToken(): Promise<string> {
+  getBreakerStatus(): CircuitBreakerStatus {
+    return this.breaker.getStatus();
+  }
+
+  private async ensureToken(priority: RequestPriority): Promise<string> {
     const now = Date.now();
     if (this.token && now < this.tokenExpiresAt - 5000) {
       return this.token;
     }
 
+    return this.tokenFlight.do("token", () => this.renewToken(priority));
+  }
+
+  private async renewToken(priority: RequestPriority): Promise<string> {
     if (this.refreshToken) {
       try {
-        const response = await this.rateLimitedRequest(() =>
-          this.axiosInstance.post("/auth/refresh", {
-            refreshToken: this.refreshToken,
-          })
+        const response = await this.rateLimitedRequest(
+          () =>
+            this.axiosInstance.post("/auth/refresh", {
+              refreshToken: this.refreshToken,
+            }),
+          "refresh",
+          priority
         );
 
         const data = (response as any).data as LoginResponse;
@@ -139,21 +156,23 @@ export class PolluApiClient {
         return this.token!;
       } catch (error: any) {
         // If refresh fails, clear the refresh token and fall back to login
-        console.warn(
-          "Token refresh failed, falling back to login:",
-          error.message
-        );
+        logger.warn("Token refresh failed, falling back to login", {
+          error,
+        });
         this.refreshToken = null;
       }
     }
 
     // Fall back to login if no refresh token or refresh failed
     try {
-      const response = await this.rateLimitedRequest(() =>
-        this.axiosInstance.post("/auth/login", {
-          username: this.username,
-          password: this.password,
-        })
+      const response = await this.rateLimitedRequest(
+        () =>
+          this.axiosInstance.post("/auth/login", {
+            username: this.username,
+            password: this.password,
+          }),
+        "login",
+        priority
       );
 
       const data = (response as any).data as LoginResponse;
@@ -176,34 +195,54 @@ export class PolluApiClient {
     }
   }
 
+  // `background` calls queue behind interactive ones (see RateLimiter)
   async fetchCountryPage(
     country: SupportedCountry,
     page: number,
-    limit = 50
+    limit = 50,
+    priority: RequestPriority = "interactive"
+  ): Promise<PollutionResponse> {
+    return this.pageFlights.do(`${country}:${page}:${limit}`, () =>
+      this.loadCountryPage(country, page, limit, priority)
+    );
+  }
+
+  private async loadCountryPage(
+    country: SupportedCountry,
+    page: number,
+    limit: number,
+    priority: RequestPriority
   ): Promise<PollutionResponse> {
-    // Check Redis cache first
+    // Check cache first (Redis or memory, depending on CACHE_BACKEND)
     const cached = await cacheService.getPollutionPage(country, page, limit);
     if (cached) {
-      console.log(`Redis cache hit for ${country}:${page}:${limit}`);
+      logger.debug("Pollution page cache hit", { country, page, limit });
       return cached;
     }
 
-    const token = await this.ensureToken();
+    // Auth and fetch (with their retries) count as one breaker call
+    const response = await this.breaker.exec(async () => {
+      const token = await this.ensureToken(priority);
 
-    const response = await this.rateLimitedRequest(async () => {
       try {
-        const response = await this.axiosInstance.get("/pollution", {
-          params: {
-            country,
-            page: String(page),
-            limit: String(Math.min(Math.max(limit, 1), 50)),
-          },
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        // Raw axios errors reach rateLimitedRequest so 429s are recognised
+        const response = await this.rateLimitedRequest(
+          () =>
+            this.axiosInstance.get("/pollution", {
+              params: {
+                country,
+                page: String(page),
+                limit: String(Math.min(Math.max(limit, 1), 50)),
+              },
+              headers: {
+                Authorization: `Bearer ${token}`,
+              },
+            }),
+          "fetch",
+          priority
+        );
 
-        return response.data as PollutionResponse;
+        return (response as any).data as PollutionResponse;
       } catch (error: any) {
         if (error.response) {
           throw new Error(
@@ -214,15 +253,13 @@ export class PolluApiClient {
       }
     });
 
-    // Cache in Redis
+    // Cache the raw page
     await cacheService.setPollutionPage(country, page, limit, response);
     return response;
   }
 
   // Original method - fetches ALL data (keep for backward compatibility)
-  async fetchAllCountry(
-    country: "PL" | "DE" | "ES" | "FR"
-  ): Promise<PollutionItem[]> {
+  async fetchAllCountry(country: SupportedCountry): Promise<PollutionItem[]> {
     const first = await this.fetchCountryPage(country, 1, 50);
     let items = first.results;
     for (let p = 2; p <= (first.meta?.totalPages ?? 1); p++) {
@@ -234,7 +271,7 @@ export class PolluApiClient {
 
   // New optimized method - fetches incrementally until we have enough valid entries
   async fetchCountryLimited(
-    country: "PL" | "DE" | "ES" | "FR",
+    country: SupportedCountry,
     targetValidEntries: number,
     validator?: (item: PollutionItem) => boolean,
     pageSize?: number
@@ -0,0 +1,287 @@
+// wikidata.client.ts
+import axios from "axios";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { EXTERNAL_APIS, RATE_LIMITS } from "../utils/constants";
+import {
+  CircuitBreaker,
+  CircuitBreakerStatus,
+} from "../utils/circuitBreaker";
+import { RateLimiter } from "../utils/rateLimiter";
+import { chunk, retryRequest } from "../utils/retry";
+import { env } from "../config/env";
+import { logger } from "../utils/logger";
+import { observeUpstream } from "../utils/metrics";
+
+type Snak = {
+  snaktype: string; // "value" | "somevalue" | "novalue"
+  datavalue?: { value: any };
+};
+
+type Claim = {
+  mainsnak: Snak;
+  rank: "preferred" | "normal" | "deprecated";
+  qualifiers?: Record<string, Snak[]>;
+};
+
+type Entity = {
+  id: string;
+  missing?: string;
+  claims?: Record<string, Claim[]>;
+};
+
+// Facts about a city taken from its Wikidata item
+export interface CityFacts {
+  wikidataId: string;
+  population: number | null; // P1082, preferred or most recent
+  officialName: string | null; // P1448, in the country's language if given
+}
+
+/**
+ * Outcome of checking one item. Only positive evidence rejects a page:
+ *  - "city": an instance of a city class, located in the country
+ *  - "not-a-city": has instance-of (P31) values, none of them a city class
+ *  - "wrong-country": has country (P17) values, none of them the country
+ *  - "unclassified": no P31 to judge by (or no city classes configured)
+ *  - "missing": the item no longer exists
+ *  - "unavailable": Wikidata could not answer
+ */
+export interface WikidataCheck {
+  item: string;
+  ok: boolean;
+  reason: string;
+  facts: CityFacts | null;
+}
+
+const API = EXTERNAL_APIS.WIKIDATA_BASE_URL;
+const ITEM_ID = /^Q[1-9]\d*$/;
+
+// Statements worth reading: non-deprecated, with an actual value
+const valuesOf = (entity: Entity, property: string): Claim[] =>
+  (entity.claims?.[property] ?? []).filter(
+    (c) => c.rank !== "deprecated" && c.mainsnak.snaktype === "value"
+  );
+
+const itemIds = (entity: Entity, property: string): string[] =>
+  valuesOf(entity, property)
+    .map((c) => c.mainsnak.datavalue?.value?.id)
+    .filter((id): id is string => typeof id === "string");
+
+// "+2011-00-00T00:00:00Z" sorts correctly as text once the sign is dropped
+const pointInTime = (claim: Claim): string =>
+  String(claim.qualifiers?.P585?.[0]?.datavalue?.value?.time ?? "").replace(
+    /^\+/,
+    ""
+  );
+
+function population(entity: Entity): number | null {
+  const claims = valuesOf(entity, "P1082");
+  const preferred = claims.filter((c) => c.rank === "preferred");
+  const [latest] = (preferred.length ? preferred : claims).sort((a, b) =>
+    pointInTime(b).localeCompare(pointInTime(a))
+  );
+  const amount = Number(latest?.mainsnak.datavalue?.value?.amount);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+function officialName(entity: Entity, language: string): string | null {
+  const names = valuesOf(entity, "P1448")
+    .map((c) => c.mainsnak.datavalue?.value)
+    .filter((v) => typeof v?.text === "string" && v.text.trim());
+  const name = names.find((v) => v.language === language) ?? names[0];
+  return name ? name.text.trim() : null;
+}
+
+export class WikidataClient {
+  private action: any;
+
+  private breaker = new CircuitBreaker("wikidata", env.wikidataBreaker);
+
+  // Every API call (retries included) takes a slot
+  private limiter = new RateLimiter({
+    maxRequests: RATE_LIMITS.WIKIDATA_API.MAX_REQUESTS,
+    windowMs: RATE_LIMITS.WIKIDATA_API.WINDOW_MS,
+    backgroundReserve: 0,
+  });
+
+  // Backoff shared by every call; a 429 pauses the limiter
+  private readonly retry = {
+    api: "wikidata",
+    name: "Wikidata API",
+    limiter: this.limiter,
+  };
+
+  // Superclasses (P279) of instance-of classes; few and rarely edited, so
+  // kept for the life of the process
+  private classParents = new Map<string, string[]>();
+
+  constructor() {
+    this.action = axios.create({
+      baseURL: API,
+      timeout: 2500,
+      headers: { "User-Agent": "BookingGuruCities/1.0" },
+    });
+  }
+
+  getBreakerStatus(): CircuitBreakerStatus {
+    return this.breaker.getStatus();
+  }
+
+  /**
+   * Check the items behind accepted Wikipedia pages. An item passes the
+   * class check when one of its P31 values, or one of their direct P279
+   * superclasses, is in `cityClasses`; null skips the class check. Never
+   * throws: items Wikidata could not answer come back "unavailable".
+   */
+  async checkItems(
+    ids: string[],
+    country: SupportedCountry,
+    cityClasses: ReadonlySet<string> | null
+  ): Promise<Map<string, WikidataCheck>> {
+    const checks = new Map<string, WikidataCheck>();
+    const unique = [...new Set(ids)].filter((id) => ITEM_ID.test(id));
+    if (!unique.length) return checks;
+
+    let entities: Map<string, Entity>;
+    try {
+      entities = await this.fetchEntities(unique);
+    } catch (error: any) {
+      logger.error("Wikidata unavailable, keeping pages unverified", {
+        items: unique.length,
+        error,
+      });
+      for (const item of unique) {
+        checks.set(item, {
+          item,
+          ok: true,
+          reason: "unavailable",
+          facts: null,
+        });
+      }
+      return checks;
+    }
+
+    const parents = cityClasses
+      ? await this.loadParents(
+          [...entities.values()].flatMap((e) => itemIds(e, "P31")),
+          cityClasses
+        )
+      : null;
+
+    for (const item of unique) {
+      const entity = entities.get(item);
+      if (!entity || entity.missing !== undefined) {
+        checks.set(item, { item, ok: true, reason: "missing", facts: null });
+        continue;
+      }
+
+      const facts: CityFacts = {
+        wikidataId: entity.id,
+        population: population(entity),
+        officialName: officialName(entity, countryRegistry.locale(country)),
+      };
+
+      const countries = itemIds(entity, "P17");
+      if (
+        countries.length &&
+        !countries.includes(countryRegistry.get(country).wikidataId)
+      ) {
+        checks.set(item, { item, ok: false, reason: "wrong-country", facts });
+        continue;
+      }
+
+      const classes = itemIds(entity, "P31");
+      if (!cityClasses || !classes.length) {
+        checks.set(item, { item, ok: true, reason: "unclassified", facts });
+        continue;
+      }
+
+      const isCity = classes.some(
+        (c) =>
+          cityClasses.has(c) ||
+          (parents?.get(c) ?? []).some((p) => cityClasses.has(p))
+      );
+      // Parents Wikidata could not answer are no evidence either way
+      const unknown = classes.some((c) => !parents?.has(c));
+      checks.set(item, {
+        item,
+        ok: isCity || unknown,
+        reason: isCity ? "city" : unknown ? "unavailable" : "not-a-city",
+        facts,
+      });
+    }
+
+    return checks;
+  }
+
+  // Direct superclasses of the classes that are not city classes themselves
+  private async loadParents(
+    classes: string[],
+    cityClasses: ReadonlySet<string>
+  ): Promise<Map<string, string[]>> {
+    const wanted = [...new Set(classes)].filter((c) => !cityClasses.has(c));
+    const unknown = wanted.filter((c) => !this.classParents.has(c));
+
+    if (unknown.length) {
+      try {
+        const entities = await this.fetchEntities(unknown);
+        for (const id of unknown) {
+          const entity = entities.get(id);
+          this.classParents.set(id, entity ? itemIds(entity, "P279") : []);
+        }
+      } catch (error: any) {
+        logger.warn("Wikidata class lookup failed", {
+          classes: unknown.length,
+          error,
+        });
+      }
+    }
+
+    const parents = new Map<string, string[]>();
+    for (const c of classes) {
+      if (cityClasses.has(c)) parents.set(c, []);
+      else if (this.classParents.has(c)) {
+        parents.set(c, this.classParents.get(c)!);
+      }
+    }
+    return parents;
+  }
+
+  // Entities by requested id (redirected items answer under the old id)
+  private async fetchEntities(ids: string[]): Promise<Map<string, Entity>> {
+    const entities = new Map<string, Entity>();
+    for (const batch of chunk(ids, RATE_LIMITS.WIKIDATA_API.MAX_IDS)) {
+      const params = {
+        action: "wbgetentities",
+        format: "json",
+        ids: batch.join("|"),
+        props: "claims",
+        origin: "*",
+      };
+
+      const data = await this.breaker.exec(() =>
+        retryRequest(
+          async () => {
+            await this.limiter.acquire();
+            const { data } = await observeUpstream<{ data: any }>(
+              "wikidata",
+              "entities",
+              () => this.action.get("", { params })
+            );
+            if (data?.error) throw new Error(data.error.info ?? "API error");
+            return data;
+          },
+          {
+            ...this.retry,
+            operation: "entities",
+            context: `entities fetch for ${batch.length} items`,
+          }
+        )
+      );
+
+      for (const [id, entity] of Object.entries<Entity>(data.entities ?? {})) {
+        entities.set(id, entity);
+      }
+    }
+    return entities;
+  }
+}
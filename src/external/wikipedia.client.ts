@@ -2,12 +2,38 @@
 import axios from "axios";
 import { asciiFold } from "../utils/asciiFold";
 import { cacheService } from "../services/cache.service";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
 import {
+  CACHE_CONFIG,
   EXTERNAL_APIS,
-  COUNTRY_LABELS,
-  SupportedCountry,
   RATE_LIMITS,
+  WikiLang,
 } from "../utils/constants";
+import { SingleFlight } from "../utils/singleFlight";
+import {
+  CircuitBreaker,
+  CircuitBreakerStatus,
+} from "../utils/circuitBreaker";
+import { RateLimiter } from "../utils/rateLimiter";
+import { chunk, retryRequest } from "../utils/retry";
+import { env } from "../config/env";
+import {
+  classificationRules,
+  WikiRules,
+} from "../config/classificationRules";
+import {
+  CityOverride,
+  cityOverrides,
+  overrideKey,
+} from "../services/city.overrides";
+import { CityFacts, WikidataClient } from "./wikidata.client";
+import { Coordinates, isValidCoordinates } from "../utils/geoIndex";
+import { logger } from "../utils/logger";
+import {
+  observeUpstream,
+  wikidataValidations,
+  wikiValidations,
+} from "../utils/metrics";
 
 type QueryPage = {
   pageid?: number;
@@ -16,17 +42,78 @@ type QueryPage = {
   missing?: true;
   extract?: string;
   categories?: { title: string }[];
-  pageprops?: { disambiguation?: string };
+  pageprops?: { disambiguation?: string; wikibase_item?: string };
+  coordinates?: Array<{ lat: number; lon: number; primary?: boolean }>;
 };
 
 const API = EXTERNAL_APIS.WIKIPEDIA_BASE_URL;
+const apiFor = (lang: WikiLang) =>
+  lang === "en" ? API : API.replace("://en.", `://${lang}.`);
+
+// Disambiguation retries name the country: English uses the registry's
+// suffix, other editions the country's name in their language
+const qualifiedTitle = (
+  input: string,
+  country: SupportedCountry,
+  lang: WikiLang
+) =>
+  lang === "en"
+    ? `${input}${countryRegistry.get(country).disambiguationSuffix}`
+    : `${input}, ${
+        new Intl.DisplayNames([lang], { type: "region" }).of(country) ??
+        countryRegistry.label(country)
+      }`;
+
+// What the wiki cache holds for a title in one edition
+export interface WikiSummary {
+  description: string | null; // null: not a city (or no local article)
+  facts: CityFacts | null; // English edition only
+  coordinates: Coordinates | null; // the article's primary coordinates
+}
+
+// Override entries by title, for titles derived from a name the entry is
+// not keyed by (a display name or alias target). Other titles are looked
+// up in the override store directly
+export type TitleOverrides = ReadonlyMap<string, CityOverride>;
+
+const noTitleOverrides: TitleOverrides = new Map();
+
+// Descriptions by title; a title without an entry could not be checked
+// (Wikipedia unreachable and nothing cached, not even stale). `facts` and
+// `coordinates` have entries only for cities that have them
+export interface SummaryBatch {
+  descriptions: Map<string, string | null>;
+  facts: Map<string, CityFacts>;
+  coordinates: Map<string, Coordinates>;
+  stale: boolean; // some answers came from expired cache or are missing
+}
+
+// One query of a title; `reason` is the validatePageIsCity reason, or
+// "not-found" / "unavailable" when no page came back. `wikidata` is the
+// WikidataCheck reason of a page that passed
+export interface TitleAttempt {
+  query: string;
+  resolved: string | null; // page title after normalization and redirects
+  reason: string;
+  wikidata: string | null;
+}
 
-function chunk<T>(arr: T[], size: number): T[][] {
-  const out: T[][] = [];
-  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
-  return out;
+// Validation trail of one title across both passes
+export interface TitleCheck {
+  attempts: TitleAttempt[];
+  description: string | null; // null: not a city (or never found)
+  facts: CityFacts | null;
+  coordinates: Coordinates | null; // of the accepted page
+  available: boolean; // false: Wikipedia could not answer
 }
 
+type BatchResult = {
+  normalized: Array<{ from: string; to: string }>;
+  redirects: Array<{ from: string; to: string }>;
+  pagesByTitle: Map<string, QueryPage>;
+  failed: Set<string>; // titles whose chunk could not be fetched
+};
+
 async function runInPool<T>(
   items: T[],
   concurrency: number,
@@ -44,26 +131,6 @@ async function runInPool<T>(
   await Promise.all(executing);
 }
 
-// ——— Validation heuristics (short and safe for enwiki) ———
-const NEG_INTRO =
-  /\b(is|was|are|were)\s+(?:an?|the)\s+(?:[a-z-]+\s+){0,4}(district|county|province|region|suburb|neighbou?rhood|borough|ward|township|village|hamlet|airport|railway\s+station|metro\s+station|university|power\s+(?:plant|station)|park|lake|river)\b/i;
-
-const POS_INTRO =
-  /\b(is|was|are|were)\s+(?:an?|the)\s+(?:[a-z-]+\s+){0,4}(city|capital|metropolis|municipality|independent\s+city|city[-\s]state|city[-\s]county)\b/i;
-
-const CAT_ALLOW: RegExp[] = [
-  /^Category:Cities?(?: and towns)? in .+/i,
-  /^Category:City counties of .+/i,
-  /^Category:Port cities and towns .+/i,
-  /^Category:Capitals (?:of|in) .+/i,
-  /^Category:Municipalities in .+/i,
-];
-
-const CAT_DENY: RegExp[] = [
-  /^Category:(Districts|Suburbs|Neighbourhoods|Neighborhoods|Villages|Towns|Townships|Boroughs) in .+/i,
-  /^Category:.* (railway stations|airports|power stations|universities|lakes|rivers) in .+/i,
-];
-
 // Build resolved title using normalized/redirects arrays
 function resolveTitle(
   input: string,
@@ -76,6 +143,44 @@ function resolveTitle(
   return redir;
 }
 
+// Page for an input title, following normalization and redirects
+function findPage(input: string, r: BatchResult): QueryPage | undefined {
+  const resolved = resolveTitle(input, r.normalized, r.redirects);
+  // exact title first
+  let page = r.pagesByTitle.get(resolved);
+  if (!page) {
+    // try case-insensitive fallback (rare)
+    const lower = resolved.toLowerCase();
+    for (const [k, v] of r.pagesByTitle.entries()) {
+      if (k.toLowerCase() === lower) {
+        page = v;
+        break;
+      }
+    }
+  }
+  return page;
+}
+
+// What an `allow` override still requires of a page
+const isAllowable = (p: QueryPage) =>
+  !p.missing &&
+  p.ns === 0 &&
+  p.pageprops?.disambiguation === undefined &&
+  !!p.extract?.trim();
+
+function addSummary(batch: SummaryBatch, title: string, summary: WikiSummary) {
+  batch.descriptions.set(title, summary.description);
+  if (summary.facts) batch.facts.set(title, summary.facts);
+  if (summary.coordinates) batch.coordinates.set(title, summary.coordinates);
+}
+
+// The page's primary coordinates, if it has any
+function pageCoordinates(p: QueryPage): Coordinates | null {
+  const primary = p.coordinates?.find((c) => c.primary) ?? p.coordinates?.[0];
+  if (!primary || !isValidCoordinates(primary)) return null;
+  return { lat: primary.lat, lon: primary.lon };
+}
+
 function firstSentence(s: string): string {
   const noParens = s
     .replace(/\([^)]*\)/g, " ")
@@ -85,17 +190,20 @@ function firstSentence(s: string): string {
   return (m ? m[0] : noParens).trim();
 }
 
-// Validate a single page
-function validatePageIsCity(p: QueryPage): { ok: boolean; reason: string } {
+// Validate a single page against the country's classification rules
+function validatePageIsCity(
+  p: QueryPage,
+  rules: WikiRules
+): { ok: boolean; reason: string } {
   if (p.missing) return { ok: false, reason: "missing" };
   if (p.ns !== 0) return { ok: false, reason: "not-article" };
   if (p.pageprops?.disambiguation !== undefined)
     return { ok: false, reason: "disambiguation" };
 
   const cats = (p.categories || []).map((c) => c.title);
-  if (cats.some((c) => CAT_DENY.some((rx) => rx.test(c))))
+  if (cats.some((c) => rules.categoryDeny.some((rx) => rx.test(c))))
     return { ok: false, reason: "deny-category" };
-  if (cats.some((c) => CAT_ALLOW.some((rx) => rx.test(c))))
+  if (cats.some((c) => rules.categoryAllow.some((rx) => rx.test(c))))
     return { ok: true, reason: "allow-category" };
 
   const introFull = (p.extract || "").trim();
@@ -104,108 +212,62 @@ function validatePageIsCity(p: QueryPage): { ok: boolean; reason: string } {
   const intro = firstSentence(introFull);
 
   // ✅ Prefer positive signal
-  if (POS_INTRO.test(intro)) return { ok: true, reason: "intro-cityish" };
+  if (rules.cityIntro.test(intro)) return { ok: true, reason: "intro-cityish" };
 
   // 🚫 Then look for a strong negative head noun
-  if (NEG_INTRO.test(intro)) return { ok: false, reason: "intro-noncity" };
+  if (rules.nonCityIntro.test(intro)) return { ok: false, reason: "intro-noncity" };
 
   return { ok: false, reason: "no-signal" };
 }
 
 export class WikipediaClient {
   private action: any;
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAY = 1000; // 1 second
 
-  constructor() {
+  // Concurrent lookups of the same title batch share one set of API calls
+  private batchFlights = new SingleFlight<SummaryBatch>();
+
+  private breaker = new CircuitBreaker("wikipedia", env.wikiBreaker);
+
+  // Every API call (continuations and retries included) takes a slot
+  private limiter = new RateLimiter({
+    maxRequests: RATE_LIMITS.WIKIPEDIA_API.MAX_REQUESTS,
+    windowMs: RATE_LIMITS.WIKIPEDIA_API.WINDOW_MS,
+    backgroundReserve: 0,
+  });
+
+  // Backoff shared by every call; a 429 pauses the limiter
+  private readonly retry = {
+    api: "wikipedia",
+    name: "Wikipedia API",
+    limiter: this.limiter,
+  };
+
+  constructor(private readonly wikidata = new WikidataClient()) {
     this.action = axios.create({
       baseURL: API,
       timeout: 2500,
       headers: { "User-Agent": "BookingGuruCities/1.0" },
 
-      validateStatus: (status) => status < 500,
+      // 429 must throw so it is retried after Retry-After
+      validateStatus: (status) => status < 500 && status !== 429,
     });
   }
 
-  private async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  private async retryRequest<T>(
-    requestFn: () => Promise<T>,
-    context: string
-  ): Promise<T> {
-    let lastError: any;
-
-    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
-      try {
-        return await requestFn();
-      } catch (error: any) {
-        lastError = error;
-
-        if (this.isRetryableError(error)) {
-          // Exponential backoff
-          const delay = this.RETRY_DELAY * Math.pow(2, attempt - 1);
-          console.warn(
-            `Wikipedia API ${context} failed (attempt ${attempt}/${this.MAX_RETRIES}): ${error.message}. Retrying in ${delay}ms...`
-          );
-
-          if (attempt < this.MAX_RETRIES) {
-            await this.sleep(delay);
-            continue;
-          }
-        }
-
-        break;
-      }
-    }
-
-    // All retries failed or non-retryable error
-    console.error(
-      `Wikipedia API ${context} failed after ${this.MAX_RETRIES} attempts:`,
-      lastError.message
-    );
-    throw new Error(`Wikipedia API unavailable: ${lastError.message}`);
-  }
-
-  private isRetryableError(error: any): boolean {
-    if (error.code) {
-      // Network errors that are worth retrying
-      const retryableCodes = [
-        "ETIMEDOUT",
-        "ECONNRESET",
-        "ECONNREFUSED",
-        "ENETUNREACH",
-        "ENOTFOUND",
-        "EAI_AGAIN",
-      ];
-
-      if (retryableCodes.includes(error.code)) {
-        return true;
-      }
-    }
-
-    // HTTP status codes worth retrying
-    if (error.response?.status) {
-      const retryableStatuses = [408, 429, 502, 503, 504];
-      return retryableStatuses.includes(error.response.status);
-    }
-
-    return false;
+  getBreakerStatus(): CircuitBreakerStatus {
+    return this.breaker.getStatus();
   }
 
   // Single batch call (with category continuation handled internally)
-  private async fetchBatchSingle(titles: string[]): Promise<{
-    normalized: Array<{ from: string; to: string }>;
-    redirects: Array<{ from: string; to: string }>;
-    pagesByTitle: Map<string, QueryPage>;
-  }> {
+  private async fetchBatchSingle(
+    titles: string[],
+    lang: WikiLang
+  ): Promise<BatchResult> {
     const base = {
       action: "query",
       format: "json",
       formatversion: 2,
       redirects: 1,
-      prop: "pageprops|categories|extracts",
+      prop: "pageprops|categories|extracts|coordinates",
       ppprop: "wikibase_item|disambiguation",
       clshow: "!hidden",
       cllimit: "max",
@@ -216,65 +278,84 @@ export class WikipediaClient {
       origin: "*",
     } as const;
 
-    return this.retryRequest(async () => {
-      let cont: Record<string, string> | undefined;
-      const pagesByTitle = new Map<string, QueryPage>();
-      const normalizedAll: Array<{ from: string; to: string }> = [];
-      const redirectsAll: Array<{ from: string; to: string }> = [];
-
-      do {
-        const params = cont ? { ...base, ...cont } : base;
-        const { data } = await this.action.get("", { params });
-
-        if (data.query?.normalized)
-          normalizedAll.push(...data.query.normalized);
-        if (data.query?.redirects) redirectsAll.push(...data.query.redirects);
-
-        for (const p of data.query?.pages || []) {
-          const key = p.title; // exact case
-          const prev = pagesByTitle.get(key);
-          if (!prev) {
-            pagesByTitle.set(key, {
-              ...p,
-              categories: p.categories ? [...p.categories] : [],
-            });
-          } else {
-            // merge categories/extract across clcontinue pages
-            if (p.extract && !prev.extract) prev.extract = p.extract;
-            if (p.pageprops && !prev.pageprops) prev.pageprops = p.pageprops;
-            if (Array.isArray(p.categories)) {
-              const seen = new Set(prev.categories?.map((c) => c.title));
-              for (const c of p.categories)
-                if (!seen.has(c.title)) prev.categories!.push(c);
+    // One breaker call per batch, after its retries are exhausted
+    return this.breaker.exec(() =>
+      retryRequest(
+        async () => {
+          let cont: Record<string, string> | undefined;
+          const pagesByTitle = new Map<string, QueryPage>();
+          const normalizedAll: Array<{ from: string; to: string }> = [];
+          const redirectsAll: Array<{ from: string; to: string }> = [];
+
+          do {
+            const params = cont ? { ...base, ...cont } : base;
+            await this.limiter.acquire();
+            const { data } = await observeUpstream<{ data: any }>(
+              "wikipedia",
+              "batch",
+              () => this.action.get(apiFor(lang), { params })
+            );
+
+            if (data.query?.normalized)
+              normalizedAll.push(...data.query.normalized);
+            if (data.query?.redirects)
+              redirectsAll.push(...data.query.redirects);
+
+            for (const p of data.query?.pages || []) {
+              const key = p.title; // exact case
+              const prev = pagesByTitle.get(key);
+              if (!prev) {
+                pagesByTitle.set(key, {
+                  ...p,
+                  categories: p.categories ? [...p.categories] : [],
+                });
+              } else {
+                // merge categories/extract across clcontinue pages
+                if (p.extract && !prev.extract) prev.extract = p.extract;
+                if (p.pageprops && !prev.pageprops)
+                  prev.pageprops = p.pageprops;
+                if (p.coordinates && !prev.coordinates)
+                  prev.coordinates = p.coordinates;
+                if (Array.isArray(p.categories)) {
+                  const seen = new Set(prev.categories?.map((c) => c.title));
+                  for (const c of p.categories)
+                    if (!seen.has(c.title)) prev.categories!.push(c);
+                }
+              }
             }
-          }
-        }
 
-        cont = data.continue;
-      } while (cont && cont.clcontinue);
-
-      return {
-        normalized: normalizedAll,
-        redirects: redirectsAll,
-        pagesByTitle,
-      };
-    }, `batch fetch for ${titles.length} titles`);
+            cont = data.continue;
+          } while (cont && (cont.clcontinue || cont.cocontinue));
+
+          return {
+            normalized: normalizedAll,
+            redirects: redirectsAll,
+            pagesByTitle,
+            failed: new Set<string>(),
+          };
+        },
+        {
+          ...this.retry,
+          operation: "batch",
+          context: `batch fetch for ${titles.length} titles`,
+        }
+      )
+    );
   }
 
   /**
    * Chunk-aware fetch: splits 'titles' into ≤50, runs with small concurrency,
    * and merges normalized/redirects/pages across chunks.
    */
-  private async fetchBatch(titles: string[]): Promise<{
-    normalized: Array<{ from: string; to: string }>;
-    redirects: Array<{ from: string; to: string }>;
-    pagesByTitle: Map<string, QueryPage>;
-  }> {
+  private async fetchBatch(
+    titles: string[],
+    lang: WikiLang
+  ): Promise<BatchResult> {
     // ---- Limits / helpers for batching ----
     const MAX_TITLES = RATE_LIMITS.WIKIPEDIA_API.MAX_TITLES;
     const CONCURRENCY = RATE_LIMITS.WIKIPEDIA_API.MAX_CONCURRENCY;
     if (titles.length <= MAX_TITLES) {
-      return this.fetchBatchSingle(titles);
+      return this.fetchBatchSingle(titles, lang);
     }
 
     const batches = chunk(titles, MAX_TITLES);
@@ -282,10 +363,11 @@ export class WikipediaClient {
     const normalizedAll: Array<{ from: string; to: string }> = [];
     const redirectsAll: Array<{ from: string; to: string }> = [];
     const pagesByTitle = new Map<string, QueryPage>();
+    const failed = new Set<string>();
 
     await runInPool(batches, CONCURRENCY, async (batch) => {
       try {
-        const r = await this.fetchBatchSingle(batch);
+        const r = await this.fetchBatchSingle(batch, lang);
         normalizedAll.push(...r.normalized);
         redirectsAll.push(...r.redirects);
 
@@ -303,6 +385,8 @@ export class WikipediaClient {
           } else {
             if (v.extract && !prev.extract) prev.extract = v.extract;
             if (v.pageprops && !prev.pageprops) prev.pageprops = v.pageprops;
+            if (v.coordinates && !prev.coordinates)
+              prev.coordinates = v.coordinates;
             if (Array.isArray(v.categories)) {
               const seen = new Set(prev.categories?.map((c) => c.title));
               for (const c of v.categories)
@@ -311,159 +395,411 @@ export class WikipediaClient {
           }
         }
       } catch (error: any) {
-        // The missing data will be handled as null results
-        console.error(`Failed to fetch batch:`, error.message);
+        // Left unanswered (stale fallback) rather than cached as non-cities
+        logger.error("Wikipedia batch failed", { titles: batch.length, error });
+        batch.forEach((title) => failed.add(title));
       }
     });
 
-    return { normalized: normalizedAll, redirects: redirectsAll, pagesByTitle };
+    return {
+      normalized: normalizedAll,
+      redirects: redirectsAll,
+      pagesByTitle,
+      failed,
+    };
   }
 
   /**
-   * Get city descriptions for many titles.
+   * Get city descriptions for many titles from one Wikipedia edition.
    * Pass 1: query + validate.
    * Pass 2 (retry once): re-query only the unresolved titles, with disambiguation handling.
    */
   async getSummaries(
     titles: string[],
-    country: SupportedCountry
-  ): Promise<Map<string, string | null>> {
-    const result = new Map<string, string | null>();
-    if (!titles.length) return result;
+    country: SupportedCountry,
+    lang: WikiLang = "en",
+    overrides: TitleOverrides = noTitleOverrides
+  ): Promise<SummaryBatch> {
+    if (!titles.length) {
+      return {
+        descriptions: new Map(),
+        facts: new Map(),
+        coordinates: new Map(),
+        stale: false,
+      };
+    }
+
+    const key = [...new Set(titles)]
+      .map((t) => {
+        const entry = overrides.get(t);
+        return entry ? `${t}>${overrideKey(entry.country, entry.name)}` : t;
+      })
+      .sort()
+      .join("|");
+    const shared = await this.batchFlights.do(`${lang}|${country}|${key}`, () =>
+      this.loadSummaries(titles, country, lang, overrides)
+    );
+    // Callers get their own copy of the shared result
+    return {
+      descriptions: new Map(shared.descriptions),
+      facts: new Map(shared.facts),
+      coordinates: new Map(shared.coordinates),
+      stale: shared.stale,
+    };
+  }
+
+  private async loadSummaries(
+    titles: string[],
+    country: SupportedCountry,
+    lang: WikiLang,
+    overrides: TitleOverrides
+  ): Promise<SummaryBatch> {
+    const result: SummaryBatch = {
+      descriptions: new Map(),
+      facts: new Map(),
+      coordinates: new Map(),
+      stale: false,
+    };
+    // Titles Wikipedia could not answer (outage, open circuit)
+    const unavailable = new Set<string>();
 
     try {
       // Check cache first
-      const cacheResults = cacheService.getWikiDescriptionsBatch(titles);
+      const cacheResults = await cacheService.getWikiSummariesBatch(
+        titles,
+        lang
+      );
       const uncachedTitles: string[] = [];
 
       for (const title of titles) {
         const cached = cacheResults.get(title);
         if (cached !== undefined) {
-          result.set(title, cached);
+          addSummary(result, title, cached);
         } else {
           uncachedTitles.push(title);
         }
       }
 
       if (!uncachedTitles.length) {
-        console.log(
-          `All ${titles.length} Wikipedia descriptions served from cache`
-        );
-        return result;
+        logger.debug("Wikipedia descriptions served from cache", {
+          titles: titles.length,
+          lang,
+        });
+        return this.withStaleFallback(result, unavailable, lang);
       }
 
-      console.log(
-        `Fetching ${uncachedTitles.length}/${titles.length} Wikipedia descriptions from API`
+      logger.info("Fetching Wikipedia descriptions", {
+        uncached: uncachedTitles.length,
+        titles: titles.length,
+        lang,
+      });
+
+      const checks = await this.checkTitles(
+        uncachedTitles,
+        country,
+        lang,
+        overrides
       );
-
-      // PASS 1
-      const r1 = await this.fetchBatch(uncachedTitles);
-
-      // Helper to find the page for an input
-      const getPage = (
-        input: string,
-        r: ReturnType<WikipediaClient["fetchBatch"]> extends Promise<infer T>
-          ? T
-          : never
-      ) => {
-        const resolved = resolveTitle(input, r.normalized, r.redirects);
-        // exact title first
-        let page = r.pagesByTitle.get(resolved);
-        if (!page) {
-          // try case-insensitive fallback (rare)
-          const lower = resolved.toLowerCase();
-          for (const [k, v] of r.pagesByTitle.entries()) {
-            if (k.toLowerCase() === lower) {
-              page = v;
-              break;
-            }
+      for (const [title, check] of checks) {
+        for (const { reason, wikidata } of check.attempts) {
+          if (reason !== "not-found" && reason !== "unavailable") {
+            wikiValidations.inc({ country, reason });
           }
+          if (wikidata) wikidataValidations.inc({ country, reason: wikidata });
         }
-        return page;
-      };
-
-      // Track what needs retry and how to map back to original titles
-      const retryMap = new Map<string, string>(); // queryTitle -> originalTitle
-      const unresolved: string[] = [];
 
-      for (const input of uncachedTitles) {
-        const page = getPage(input, r1);
-        if (!page) {
-          unresolved.push(input);
-          retryMap.set(input, input);
+        if (!check.available) {
+          unavailable.add(title);
           continue;
         }
+        const summary: WikiSummary = {
+          description: check.description,
+          facts: check.facts,
+          coordinates: check.coordinates,
+        };
+        addSummary(result, title, summary);
+        // A Wikidata outage left the page unchecked: ask again soon rather
+        // than trusting it for the full TTL
+        const unverified = check.attempts.some(
+          (a) => a.wikidata === "unavailable"
+        );
+        await cacheService.setWikiSummary(
+          title,
+          summary,
+          lang,
+          unverified ? CACHE_CONFIG.DEGRADED_TTL : CACHE_CONFIG.WIKIPEDIA_TTL
+        );
+      }
 
-        const verdict = validatePageIsCity(page);
-
-        if (verdict.reason === "disambiguation") {
-          const countryLabel = COUNTRY_LABELS[country];
-          const newInput = `${input}, ${countryLabel}`;
-          unresolved.push(newInput);
-          retryMap.set(newInput, input);
-        } else if (verdict.ok) {
-          const description = (page.extract || "").trim() || null;
-          result.set(input, description);
-          cacheService.setWikiDescription(input, description);
-        } else if (
-          verdict.reason === "missing" ||
-          verdict.reason === "no-intro" ||
-          verdict.reason === "no-signal"
-        ) {
-          // retry these once
-          unresolved.push(input);
-          retryMap.set(input, input);
-        } else {
-          result.set(input, null); // deny-category / not-article
-          cacheService.setWikiDescription(input, null);
+      return this.withStaleFallback(result, unavailable, lang);
+    } catch (error: any) {
+      logger.error("Wikipedia API unavailable", { error });
+
+      // Nothing is cached for unanswered titles, so they are retried (or
+      // served stale) next time instead of being remembered as non-cities
+      for (const title of titles) {
+        if (!result.descriptions.has(title)) unavailable.add(title);
+      }
+
+      return this.withStaleFallback(result, unavailable, lang);
+    }
+  }
+
+  /**
+   * Query and validate titles without touching the cache, keeping every
+   * attempt (see TitleCheck). Pass 1 queries the titles as given; pass 2
+   * retries unresolved ones once, ASCII-folded, with disambiguation pages
+   * re-queried as "<title>, <country>". A title pinned by a city override
+   * is queried instead of the input and never retried; `allow` overrides
+   * accept any article with an intro. Pinned titles are English ones, so
+   * other editions query the input. Entries come from `titleOverrides`
+   * first, then from the override store by title.
+   *
+   * On English Wikipedia, pages that pass are then checked against their
+   * Wikidata item (see WikidataClient.checkItems), which also supplies the
+   * city's facts. An item in another country is retried like a
+   * disambiguation page; one that is not a city is dropped. `allow`
+   * overrides only take the facts.
+   */
+  async checkTitles(
+    titles: string[],
+    country: SupportedCountry,
+    lang: WikiLang = "en",
+    titleOverrides: TitleOverrides = noTitleOverrides
+  ): Promise<Map<string, TitleCheck>> {
+    const checks = new Map<string, TitleCheck>();
+    // Both passes judge by the same rules, even across a reload
+    const rules = classificationRules.forWiki(country, lang);
+    if (!rules) throw new Error(`No classification rules for "${lang}"`);
+    const cityClasses = classificationRules.cityClasses();
+    const stored = cityOverrides.forCountry(country);
+    const overrides = (input: string) =>
+      titleOverrides.get(input) ?? stored(input);
+    const qualified = (input: string) => qualifiedTitle(input, country, lang);
+
+    const pinned = new Map<string, string>(); // input -> pinned title
+    for (const input of titles) {
+      const wikiTitle = overrides(input)?.wikiTitle;
+      if (wikiTitle && lang === "en") pinned.set(input, wikiTitle);
+    }
+
+    const judge = (page: QueryPage, input: string) => {
+      const verdict = validatePageIsCity(page, rules);
+      return !verdict.ok &&
+        overrides(input)?.action === "allow" &&
+        isAllowable(page)
+        ? { ok: true, reason: "override-allow" }
+        : verdict;
+    };
+
+    // Track what needs retry and how to map back to original titles
+    const retryMap = new Map<string, string>(); // queryTitle -> originalTitle
+    const unresolved: string[] = [];
+    const retry = (input: string, queryTitle: string) => {
+      if (pinned.has(input)) return;
+      unresolved.push(queryTitle);
+      retryMap.set(queryTitle, input);
+    };
+
+    // Pages a pass accepted, checked against Wikidata together
+    type Accepted = { input: string; page: QueryPage; attempt: TitleAttempt };
+    const verify = async (accepted: Accepted[], pass: 1 | 2) => {
+      if (lang !== "en" || !accepted.length) return;
+
+      const items = await this.wikidata.checkItems(
+        accepted.map((a) => a.page.pageprops?.wikibase_item ?? ""),
+        country,
+        cityClasses
+      );
+      for (const { input, page, attempt } of accepted) {
+        const item = items.get(page.pageprops?.wikibase_item ?? "");
+        if (!item) continue;
+
+        const check = checks.get(input)!;
+        attempt.wikidata = item.reason;
+        check.facts = item.facts;
+        if (item.ok || overrides(input)?.action === "allow") continue;
+
+        check.description = null;
+        check.facts = null;
+        check.coordinates = null;
+        if (item.reason === "wrong-country" && pass === 1) {
+          retry(input, qualified(input));
         }
       }
+    };
+
+    // PASS 1
+    const r1 = await this.fetchOrFail(
+      [...new Set(titles.map((t) => pinned.get(t) ?? t))],
+      lang
+    );
+    const accepted1: Accepted[] = [];
+
+    for (const input of titles) {
+      const check: TitleCheck = {
+        attempts: [],
+        description: null,
+        facts: null,
+        coordinates: null,
+        available: true,
+      };
+      checks.set(input, check);
+
+      const query = pinned.get(input) ?? input;
+
+      if (r1.failed.has(query)) {
+        check.attempts.push({
+          query,
+          resolved: null,
+          reason: "unavailable",
+          wikidata: null,
+        });
+        check.available = false;
+        continue;
+      }
 
-      if (!unresolved.length) return result;
+      const page = findPage(query, r1);
+      if (!page) {
+        check.attempts.push({
+          query,
+          resolved: null,
+          reason: "not-found",
+          wikidata: null,
+        });
+        retry(input, input);
+        continue;
+      }
 
-      // ASCII fold for retry queries
-      const asciiFoldMap = new Map<string, string>();
-      for (const queryTitle of unresolved) {
-        const folded = asciiFold(queryTitle, { removePunctuation: false });
-        asciiFoldMap.set(folded, queryTitle);
+      const verdict = judge(page, input);
+      const attempt: TitleAttempt = {
+        query,
+        resolved: page.title,
+        reason: verdict.reason,
+        wikidata: null,
+      };
+      check.attempts.push(attempt);
+
+      if (verdict.reason === "disambiguation") {
+        retry(input, qualified(input));
+      } else if (verdict.ok) {
+        check.description = (page.extract || "").trim() || null;
+        check.coordinates = pageCoordinates(page);
+        accepted1.push({ input, page, attempt });
+      } else if (
+        verdict.reason === "missing" ||
+        verdict.reason === "no-intro" ||
+        verdict.reason === "no-signal"
+      ) {
+        // retry these once
+        retry(input, input);
       }
+      // deny-category / not-article stay null
+    }
 
-      const foldedTitles = Array.from(asciiFoldMap.keys());
+    await verify(accepted1, 1);
+    if (!unresolved.length) return checks;
 
-      // PASS 2 (retry same API once)
-      const r2 = await this.fetchBatch(foldedTitles);
-      for (const foldedTitle of foldedTitles) {
-        const queryTitle = asciiFoldMap.get(foldedTitle)!;
-        const originalTitle = retryMap.get(queryTitle)!;
+    // ASCII fold for retry queries
+    const asciiFoldMap = new Map<string, string>();
+    for (const queryTitle of unresolved) {
+      const folded = asciiFold(queryTitle, { removePunctuation: false });
+      asciiFoldMap.set(folded, queryTitle);
+    }
 
-        const page = getPage(foldedTitle, r2);
-        if (!page) {
-          result.set(originalTitle, null);
-          await cacheService.setWikiDescription(originalTitle, null);
-          continue;
-        }
+    const foldedTitles = Array.from(asciiFoldMap.keys());
+
+    // PASS 2 (retry same API once)
+    const r2 = await this.fetchOrFail(foldedTitles, lang);
+    const accepted2: Accepted[] = [];
+    for (const foldedTitle of foldedTitles) {
+      const queryTitle = asciiFoldMap.get(foldedTitle)!;
+      // Always use original title as key
+      const input = retryMap.get(queryTitle)!;
+      const check = checks.get(input)!;
+
+      if (r2.failed.has(foldedTitle)) {
+        check.attempts.push({
+          query: foldedTitle,
+          resolved: null,
+          reason: "unavailable",
+          wikidata: null,
+        });
+        check.available = false;
+        continue;
+      }
 
-        const verdict = validatePageIsCity(page);
-        const description = verdict.ok
-          ? (page.extract || "").trim() || null
-          : null;
-        result.set(originalTitle, description); // Always use original title as key
-        await cacheService.setWikiDescription(originalTitle, description);
+      const page = findPage(foldedTitle, r2);
+      if (!page) {
+        check.attempts.push({
+          query: foldedTitle,
+          resolved: null,
+          reason: "not-found",
+          wikidata: null,
+        });
+        continue;
       }
 
-      return result;
+      const verdict = judge(page, input);
+      const attempt: TitleAttempt = {
+        query: foldedTitle,
+        resolved: page.title,
+        reason: verdict.reason,
+        wikidata: null,
+      };
+      check.attempts.push(attempt);
+      check.description = verdict.ok
+        ? (page.extract || "").trim() || null
+        : null;
+      check.coordinates = verdict.ok ? pageCoordinates(page) : null;
+      if (verdict.ok) accepted2.push({ input, page, attempt });
+    }
+
+    await verify(accepted2, 2);
+    return checks;
+  }
+
+  // A pass whose request fails leaves its titles unavailable, not unchecked
+  private async fetchOrFail(
+    titles: string[],
+    lang: WikiLang
+  ): Promise<BatchResult> {
+    try {
+      return await this.fetchBatch(titles, lang);
     } catch (error: any) {
-      console.error("Wikipedia API completely failed:", error.message);
+      logger.error("Wikipedia API unavailable", { error });
+      return {
+        normalized: [],
+        redirects: [],
+        pagesByTitle: new Map(),
+        failed: new Set(titles),
+      };
+    }
+  }
 
-      // Return null for all requested titles if Wikipedia is completely down
-      for (const title of titles) {
-        if (!result.has(title)) {
-          result.set(title, null);
-          cacheService.setWikiDescription(title, null, 5 * 60 * 1000); // Cache failure for 5 minutes
-        }
+  // Answer unavailable titles from expired-but-retained summaries
+  private async withStaleFallback(
+    result: SummaryBatch,
+    unavailable: Set<string>,
+    lang: WikiLang
+  ): Promise<SummaryBatch> {
+    if (!unavailable.size) return result;
+
+    let served = 0;
+    for (const title of unavailable) {
+      const stale = await cacheService.getStaleWikiSummary(title, lang);
+      if (stale !== null) {
+        addSummary(result, title, stale);
+        served++;
       }
-
-      return result;
     }
+
+    logger.warn("Wikipedia unavailable, serving stale descriptions", {
+      lang,
+      titles: unavailable.size,
+      servedStale: served,
+      unverified: unavailable.size - served,
+    });
+    return { ...result, stale: true };
   }
 }
@@ -0,0 +1,36 @@
+import { createHash } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../errors/AppError";
+import { ApiClient } from "../config/apiKeys";
+
+const digest = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/**
+ * Require a valid `X-Admin-Key` header and expose the caller as
+ * `res.locals.adminClient`. Unlike `apiKeyAuth`, no configured keys means
+ * the admin API is closed, never open.
+ */
+export function adminAuth(admins: ApiClient[]) {
+  const byDigest = new Map(admins.map((a) => [digest(a.key), a]));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (byDigest.size === 0) {
+      return next(AppError.forbidden("Admin API is disabled"));
+    }
+
+    const key = req.get("X-Admin-Key");
+    if (!key) {
+      return next(
+        AppError.unauthorized("Missing admin key (X-Admin-Key header)")
+      );
+    }
+
+    const admin = byDigest.get(digest(key));
+    if (!admin) {
+      return next(AppError.unauthorized("Invalid admin key"));
+    }
+
+    res.locals.adminClient = admin;
+    next();
+  };
+}
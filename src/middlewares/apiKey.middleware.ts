@@ -0,0 +1,33 @@
+import { createHash } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../errors/AppError";
+import { ApiClient } from "../config/apiKeys";
+
+const digest = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/**
+ * Require a valid `X-API-Key` header and expose the caller as
+ * `res.locals.apiClient`. Keys are looked up by hash, so the comparison
+ * does not leak key prefixes through timing. Without configured keys
+ * every request passes.
+ */
+export function apiKeyAuth(clients: ApiClient[]) {
+  const byDigest = new Map(clients.map((c) => [digest(c.key), c]));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (byDigest.size === 0) return next();
+
+    const key = req.get("X-API-Key");
+    if (!key) {
+      return next(AppError.unauthorized("Missing API key (X-API-Key header)"));
+    }
+
+    const client = byDigest.get(digest(key));
+    if (!client) {
+      return next(AppError.unauthorized("Invalid API key"));
+    }
+
+    res.locals.apiClient = client;
+    next();
+  };
+}
@@ -18,7 +18,10 @@ export function errorHandler(
     error = new AppError("Internal Server Error", 500, false);
   }
 
-  const payload: Record<string, unknown> = { message: error.message };
+  const payload: Record<string, unknown> = {
+    message: error.message,
+    requestId: res.locals.requestId,
+  };
   if (env.nodeEnv !== "production" && (error as any).stack) {
     payload.stack = (error as any).stack;
   }
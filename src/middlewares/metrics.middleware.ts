@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+import { httpRequestDuration } from "../utils/metrics";
+
+/**
+ * Record request latency under the matched route template (e.g.
+ * `/api/v1/cities/:country/:name`), so raw ids and query strings never become
+ * label values. Requests that matched no route share `unmatched`.
+ *
+ * The label is taken when Express assigns `req.route`, while `req.baseUrl`
+ * still holds the matching router's mount path; by `finish` the router may
+ * have reset it (errors passed to `next` leave the router first).
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+  const end = httpRequestDuration.startTimer();
+  let route = "unmatched";
+  let matched: Request["route"];
+
+  Object.defineProperty(req, "route", {
+    configurable: true,
+    enumerable: true,
+    get: () => matched,
+    set: (value: Request["route"]) => {
+      matched = value;
+      if (value?.path) {
+        route = `${req.baseUrl}${value.path}`.replace(/(.)\/$/, "$1");
+      }
+    },
+  });
+
+  res.on("finish", () => {
+    end({ method: req.method, route, status: String(res.statusCode) });
+  });
+
+  next();
+}
@@ -5,5 +5,7 @@ export function notFoundHandler(
   res: Response,
   _next: NextFunction
 ) {
-  res.status(404).json({ message: "Route not found" });
+  res
+    .status(404)
+    .json({ message: "Route not found", requestId: res.locals.requestId });
 }
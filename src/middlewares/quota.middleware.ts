@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../errors/AppError";
+import { ApiClient } from "../config/apiKeys";
+import { logger } from "../utils/logger";
+
+interface QuotaWindow {
+  startedAt: number;
+  used: number;
+}
+
+/**
+ * Per-key fixed-window quota for `res.locals.apiClient` (set by apiKeyAuth).
+ * Every response carries the RateLimit-* headers; over-quota requests get
+ * a 429 with Retry-After through errorHandler. Counters are per instance.
+ */
+export function enforceQuota() {
+  const windows = new Map<string, QuotaWindow>();
+
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const client: ApiClient | undefined = res.locals.apiClient;
+    if (!client) return next();
+
+    const now = Date.now();
+    let window = windows.get(client.key);
+    if (!window || now - window.startedAt >= client.windowMs) {
+      window = { startedAt: now, used: 0 };
+      windows.set(client.key, window);
+    }
+
+    const resetSeconds = Math.ceil(
+      (window.startedAt + client.windowMs - now) / 1000
+    );
+    const allowed = window.used < client.limit;
+    if (allowed) window.used++;
+
+    const windowSeconds = Math.ceil(client.windowMs / 1000);
+    res.set({
+      "RateLimit-Policy": `${client.limit};w=${windowSeconds}`,
+      "RateLimit-Limit": String(client.limit),
+      "RateLimit-Remaining": String(client.limit - window.used),
+      "RateLimit-Reset": String(resetSeconds),
+    });
+
+    if (!allowed) {
+      logger.warn("API key quota exceeded", {
+        client: client.name,
+        limit: client.limit,
+      });
+      res.set("Retry-After", String(resetSeconds));
+      return next(
+        AppError.tooManyRequests(
+          `Rate limit of ${client.limit} requests per ${windowSeconds}s exceeded, retry in ${resetSeconds}s`
+        )
+      );
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,33 @@
+import { randomUUID } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
+import { runWithRequestId } from "../utils/requestContext";
+
+// Accept a caller's id only if it is short and log-safe
+const VALID_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Assign (or propagate) `X-Request-Id`, echo it in the response and run
+ * the rest of the request inside its async context. Logs one access line
+ * per request once the response is sent.
+ */
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get("X-Request-Id");
+  const id = incoming && VALID_ID.test(incoming) ? incoming : randomUUID();
+  const startedAt = Date.now();
+
+  res.locals.requestId = id;
+  res.set("X-Request-Id", id);
+
+  res.on("finish", () => {
+    logger.info("Request completed", {
+      requestId: id,
+      method: req.method,
+      path: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+    });
+  });
+
+  runWithRequestId(id, next);
+}
@@ -0,0 +1,30 @@
+import { Router } from "express";
+import { AdminController } from "../controllers/admin.controller";
+import { CacheAdmin } from "../services/cache.admin";
+import { cacheAdmin } from "./city.routes";
+
+export function createAdminRouter(admin: CacheAdmin): Router {
+  const adminController = new AdminController(admin);
+  const router = Router();
+
+  router.get("/cache", adminController.getCache);
+  router.delete("/cache/countries/:country", adminController.invalidateCountry);
+  router.post(
+    "/cache/countries/:country/rebuild",
+    adminController.rebuildCountry
+  );
+  router.delete(
+    "/cache/pollution/:country/:page",
+    adminController.invalidatePollutionPage
+  );
+  router.delete("/cache/wiki/:title", adminController.invalidateWikiTitle);
+  router.get("/rules", adminController.getRules);
+  router.post("/rules/reload", adminController.reloadRules);
+  router.get("/overrides", adminController.listOverrides);
+  router.get("/overrides/:country/:name", adminController.getOverride);
+  router.put("/overrides/:country/:name", adminController.putOverride);
+  router.delete("/overrides/:country/:name", adminController.deleteOverride);
+  return router;
+}
+
+export const adminRouter = createAdminRouter(cacheAdmin);
@@ -1,14 +1,38 @@
 import { Router } from "express";
 import { PolluApiClient } from "../external/polluApi.client";
 import { WikipediaClient } from "../external/wikipedia.client";
+import { WikidataClient } from "../external/wikidata.client";
 import { CityService } from "../services/city.service";
+import { CacheWarmer } from "../services/cache.warmer";
+import { CacheAdmin } from "../services/cache.admin";
 import { CityController } from "../controllers/city.controller";
 
 const polluClient = new PolluApiClient();
-const wikiClient = new WikipediaClient();
-const cityService = new CityService(polluClient, wikiClient);
-const cityController = new CityController(cityService);
+const wikidataClient = new WikidataClient();
+const wikiClient = new WikipediaClient(wikidataClient);
+export const cityService = new CityService(polluClient, wikiClient);
 
-export const cityRouter = Router();
+export const cacheWarmer = new CacheWarmer(cityService);
+export const cacheAdmin = new CacheAdmin(cityService);
 
-cityRouter.get("/", cityController.getCities);
+export const getBreakerStatus = () => ({
+  pollution: polluClient.getBreakerStatus(),
+  wikipedia: wikiClient.getBreakerStatus(),
+  wikidata: wikidataClient.getBreakerStatus(),
+});
+
+export function createCityRouter(service: CityService): Router {
+  const cityController = new CityController(service);
+  const router = Router();
+
+  router.get("/", cityController.getCities);
+  router.get("/search", cityController.searchCities);
+  router.get("/nearby", cityController.nearbyCities);
+  router.get("/explain", cityController.explainCities);
+  router.get("/explain/:name", cityController.explainCities);
+  router.get("/:country/:name", cityController.getCity);
+  router.get("/:country/:name/history", cityController.getCityHistory);
+  return router;
+}
+
+export const cityRouter = createCityRouter(cityService);
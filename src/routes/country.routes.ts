@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { CountryController } from "../controllers/country.controller";
+import { CityService } from "../services/city.service";
+import { CacheAdmin } from "../services/cache.admin";
+import { CacheWarmer } from "../services/cache.warmer";
+import { cacheAdmin, cacheWarmer, cityService } from "./city.routes";
+
+export function createCountryRouter(
+  service: CityService,
+  admin: CacheAdmin,
+  warmer: CacheWarmer
+): Router {
+  const countryController = new CountryController(service, admin, warmer);
+  const router = Router();
+
+  router.get("/", countryController.listCountries);
+  router.get("/:code/changes", countryController.getChanges);
+  return router;
+}
+
+export const countryRouter = createCountryRouter(
+  cityService,
+  cacheAdmin,
+  cacheWarmer
+);
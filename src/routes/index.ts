@@ -1,7 +1,61 @@
 import { Router } from "express";
-import { cityRouter } from "./city.routes";
+import { cacheWarmer, cityRouter, getBreakerStatus } from "./city.routes";
+import { countryRouter } from "./country.routes";
+import { adminRouter } from "./admin.routes";
+import { ApiClient, loadAdminKeys, loadApiKeys } from "../config/apiKeys";
+import { apiKeyAuth } from "../middlewares/apiKey.middleware";
+import { adminAuth } from "../middlewares/adminAuth.middleware";
+import { enforceQuota } from "../middlewares/quota.middleware";
+import { logger } from "../utils/logger";
+
+export interface ApiRouters {
+  cities: Router;
+  countries: Router;
+  admin: Router;
+}
+
+/**
+ * Everything but the health checks. City and country routes need an API
+ * key once keys exist and count against its quota; the admin API has its
+ * own keys and is closed without them
+ */
+export function createApiRouter(
+  routers: ApiRouters,
+  apiClients: ApiClient[],
+  adminClients: ApiClient[]
+): Router {
+  const router = Router();
+  router.use("/cities", apiKeyAuth(apiClients), enforceQuota(), routers.cities);
+  router.use(
+    "/countries",
+    apiKeyAuth(apiClients),
+    enforceQuota(),
+    routers.countries
+  );
+  router.use("/admin", adminAuth(adminClients), routers.admin);
+  return router;
+}
+
+const apiClients = loadApiKeys();
+if (apiClients.length) {
+  logger.info("API key auth enabled", { clients: apiClients.length });
+}
+
+const adminClients = loadAdminKeys();
+if (adminClients.length) {
+  logger.info("Admin API enabled", { admins: adminClients.length });
+}
 
 export const router = Router();
 
+// Health checks stay open
 router.get("/health", (_req, res) => res.json({ ok: true }));
-router.use("/cities", cityRouter);
+router.get("/health/warmer", (_req, res) => res.json(cacheWarmer.getStatus()));
+router.get("/health/breakers", (_req, res) => res.json(getBreakerStatus()));
+router.use(
+  createApiRouter(
+    { cities: cityRouter, countries: countryRouter, admin: adminRouter },
+    apiClients,
+    adminClients
+  )
+);
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { metricsRegistry } from "../utils/metrics";
+
+// Prometheus scrape endpoint; kept outside /api/v1 so it needs no API key
+export const metricsRouter = Router();
+
+metricsRouter.get("/", async (_req, res) => {
+  res.set("Content-Type", metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+});
@@ -2,10 +2,85 @@ import { createServer } from "http";
 import { createApp } from "./app";
 import { env } from "./config/env";
 import { logger } from "./utils/logger";
+import { cacheService } from "./services/cache.service";
+import {
+  loadCacheSnapshot,
+  saveCacheSnapshot,
+  scheduleCacheSnapshots,
+} from "./services/cache.persistence";
+import { cacheWarmer } from "./routes/city.routes";
+import { classificationRules } from "./config/classificationRules";
+import { pollutionHistory } from "./services/pollution.history";
+import { closeServer } from "./utils/closeServer";
+import { SHUTDOWN_CONFIG } from "./utils/constants";
 
-const app = createApp();
-const server = createServer(app);
+async function start() {
+  // Warm start: reload whatever had not expired when we last stopped
+  if (env.cacheSnapshotFile) {
+    await loadCacheSnapshot(env.cacheSnapshotFile);
+  }
+  await pollutionHistory.load();
 
-server.listen(env.port, () => {
-  logger.info(`Server listening on port ${env.port}`);
+  const app = createApp();
+  const server = createServer(app);
+
+  server.listen(env.port, () => {
+    logger.info("Server listening", { port: env.port });
+  });
+
+  const stopSnapshots = env.cacheSnapshotFile
+    ? scheduleCacheSnapshots(
+        env.cacheSnapshotFile,
+        env.cacheSnapshotIntervalMs
+      )
+    : () => {};
+
+  const stopRulesWatch = classificationRules.watch();
+  const stopPruning = pollutionHistory.schedulePruning();
+
+  if (env.warmerEnabled) cacheWarmer.start();
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info("Shutting down", { signal });
+
+    stopSnapshots();
+    stopRulesWatch();
+    stopPruning();
+
+    try {
+      // Requests still running may write to the caches; let them finish
+      // before the snapshot is taken
+      const drained = await closeServer(
+        server,
+        SHUTDOWN_CONFIG.DRAIN_TIMEOUT_MS
+      );
+      if (!drained) {
+        logger.warn("In-flight requests did not finish, closing them", {
+          timeoutMs: SHUTDOWN_CONFIG.DRAIN_TIMEOUT_MS,
+        });
+      }
+
+      await cacheWarmer.stop();
+      await pollutionHistory.flush();
+      if (env.cacheSnapshotFile) {
+        await saveCacheSnapshot(env.cacheSnapshotFile);
+      }
+      await cacheService.disconnect();
+    } catch (error: any) {
+      logger.error("Shutdown cleanup failed", { error });
+    }
+
+    process.exit(0);
+  };
+
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
+}
+
+start().catch((error) => {
+  logger.error("Failed to start server", { error });
+  process.exit(1);
 });
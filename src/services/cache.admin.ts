@@ -0,0 +1,155 @@
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { cacheService } from "./cache.service";
+import { CityService, toWikiTitle } from "./city.service";
+import { CityOverride } from "./city.overrides";
+import { logger } from "../utils/logger";
+
+export interface CountryCacheState {
+  country: SupportedCountry;
+  // "expired" entries are only kept as stale fallback
+  state: "fresh" | "expired" | "missing";
+  cities: number | null;
+  lastPage: number | null;
+  totalPages: number | null;
+  isComplete: boolean | null;
+  stale: boolean | null;
+  builtAt: string | null;
+  ageMs: number | null;
+  rebuilding: boolean;
+}
+
+/**
+ * Cache inspection and targeted invalidation behind the admin API, so a
+ * single bad entry can be fixed without clearing everything.
+ *
+ * Rebuilds go through `CityService.refreshCountry`: the current entry keeps
+ * serving until the new one replaces it. They run in the background, one
+ * per country at a time.
+ */
+export class CacheAdmin {
+  private rebuilds = new Map<SupportedCountry, Promise<void>>();
+
+  constructor(private readonly cityService: CityService) {}
+
+  async getOverview() {
+    const countries: CountryCacheState[] = [];
+    for (const country of countryRegistry.codes) {
+      countries.push(await this.countryState(country));
+    }
+    return { stats: await cacheService.getCacheStats(), countries };
+  }
+
+  async invalidateCountry(country: SupportedCountry) {
+    const removed = await cacheService.deleteCountry(country);
+    logger.info("Country cache invalidated", { country, ...removed });
+    return removed;
+  }
+
+  async invalidatePollutionPage(
+    country: SupportedCountry,
+    page: number,
+    limit: number
+  ): Promise<boolean> {
+    const removed = await cacheService.deletePollutionPage(
+      country,
+      page,
+      limit
+    );
+    logger.info("Pollution page invalidated", {
+      country,
+      page,
+      limit,
+      removed,
+    });
+    return removed;
+  }
+
+  /**
+   * Drop one Wikipedia description. Country rankings embed descriptions,
+   * so every cached country listing a city under this title is rebuilt;
+   * only the dropped title is fetched again, the rest come from cache.
+   */
+  async invalidateWikiTitle(
+    title: string
+  ): Promise<{ removed: boolean; rebuilding: SupportedCountry[] }> {
+    const titles = new Set([title, toWikiTitle(title)]);
+
+    let removed = false;
+    for (const t of titles) {
+      removed = (await cacheService.deleteWikiSummary(t)) || removed;
+    }
+
+    const rebuilding: SupportedCountry[] = [];
+    for (const country of countryRegistry.codes) {
+      const cached = await cacheService.getStaleCountryCache(country);
+      if (cached?.cities.some((c) => titles.has(toWikiTitle(c.city)))) {
+        this.rebuild(country);
+        rebuilding.push(country);
+      }
+    }
+
+    logger.info("Wikipedia description invalidated", {
+      title,
+      removed,
+      rebuilding,
+    });
+    return { removed, rebuilding };
+  }
+
+  /**
+   * Make a city override change visible: drop the cached Wikipedia answers
+   * for every name the old and new entry mention, then rebuild the country.
+   */
+  async applyOverride(
+    country: SupportedCountry,
+    entries: (CityOverride | null)[]
+  ): Promise<boolean> {
+    const titles = new Set<string>();
+    for (const entry of entries) {
+      for (const name of [entry?.name, entry?.displayName, entry?.aliasOf]) {
+        if (!name) continue;
+        titles.add(name);
+        titles.add(toWikiTitle(name));
+      }
+    }
+
+    for (const title of titles) {
+      await cacheService.deleteWikiSummary(title);
+    }
+    return this.rebuild(country);
+  }
+
+  // Starts a background rebuild; false if one is already running
+  rebuild(country: SupportedCountry): boolean {
+    if (this.rebuilds.has(country)) return false;
+
+    const run = this.cityService
+      .refreshCountry(country)
+      .then(
+        (result) =>
+          logger.info("Country rebuild finished", { country, ...result }),
+        (error) => logger.error("Country rebuild failed", { country, error })
+      )
+      .finally(() => this.rebuilds.delete(country));
+    this.rebuilds.set(country, run);
+    return true;
+  }
+
+  async countryState(country: SupportedCountry): Promise<CountryCacheState> {
+    const fresh = await cacheService.getCountryCache(country);
+    const data = fresh ?? (await cacheService.getStaleCountryCache(country));
+
+    return {
+      country,
+      state: fresh ? "fresh" : data ? "expired" : "missing",
+      cities: data?.cities.length ?? null,
+      lastPage: data?.lastPage ?? null,
+      totalPages: data?.totalPages ?? null,
+      isComplete: data?.isComplete ?? null,
+      stale: data ? data.stale ?? false : null,
+      builtAt: data ? new Date(data.timestamp).toISOString() : null,
+      ageMs: data ? Date.now() - data.timestamp : null,
+      rebuilding: this.rebuilds.has(country),
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { cacheService, CacheDump } from "./cache.service";
+import { logger } from "../utils/logger";
+
+// Bump whenever the shape of cached data changes (e.g. new CityResult
+// fields); snapshots written by other versions are ignored on load
+export const CACHE_SNAPSHOT_VERSION = 6;
+
+interface CacheSnapshotFile {
+  version: number;
+  savedAt: number;
+  caches: Partial<CacheDump>;
+}
+
+export async function saveCacheSnapshot(file: string): Promise<number> {
+  const caches = await cacheService.exportEntries();
+  const snapshot: CacheSnapshotFile = {
+    version: CACHE_SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    caches,
+  };
+
+  // Write-then-rename so a crash mid-write never leaves a truncated file
+  const tmp = `${file}.tmp`;
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(tmp, JSON.stringify(snapshot), "utf8");
+  await rename(tmp, file);
+
+  const count = Object.values(caches).reduce((n, e) => n + e.length, 0);
+  logger.info("Cache snapshot saved", { entries: count, file });
+  return count;
+}
+
+// Returns the number of restored entries; never throws
+export async function loadCacheSnapshot(file: string): Promise<number> {
+  let snapshot: CacheSnapshotFile;
+  try {
+    snapshot = JSON.parse(await readFile(file, "utf8"));
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      logger.warn("Ignoring unreadable cache snapshot", { file, error });
+    }
+    return 0;
+  }
+
+  if (snapshot?.version !== CACHE_SNAPSHOT_VERSION || !snapshot.caches) {
+    logger.warn("Ignoring cache snapshot from another version", {
+      file,
+      version: snapshot?.version,
+      expected: CACHE_SNAPSHOT_VERSION,
+    });
+    return 0;
+  }
+
+  try {
+    const restored = await cacheService.importEntries(snapshot.caches);
+    logger.info("Cache snapshot restored", { entries: restored, file });
+    return restored;
+  } catch (error: any) {
+    logger.warn("Ignoring malformed cache snapshot", { file, error });
+    await cacheService.clearCache();
+    return 0;
+  }
+}
+
+// Periodic snapshots; returns a stop function
+export function scheduleCacheSnapshots(
+  file: string,
+  intervalMs: number
+): () => void {
+  if (intervalMs <= 0) return () => {};
+
+  const timer = setInterval(() => {
+    saveCacheSnapshot(file).catch((error) =>
+      logger.error("Cache snapshot failed", { file, error })
+    );
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
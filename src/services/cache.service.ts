@@ -1,161 +1,297 @@
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
-}
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { CACHE_CONFIG, WikiLang } from "../utils/constants";
+import { env } from "../config/env";
+import {
+  CacheEntry,
+  CacheStore,
+  LRUCache,
+  RedisConnection,
+  RedisStore,
+  connectRedis,
+} from "./cache.store";
+import type { CityResult } from "./city.service";
+import type { RankingView } from "../utils/cursor";
+import type { WikiSummary } from "../external/wikipedia.client";
 
-import { CACHE_CONFIG, SupportedCountry } from "../utils/constants";
-
-interface CountryCacheData {
-  cities: Array<{
-    country: SupportedCountry;
-    city: string;
-    pollution: number;
-    description: string | null;
-  }>;
+export interface CountryCacheData {
+  cities: CityResult[];
   lastPage: number;
   totalPages: number | null;
   timestamp: number;
   isComplete: boolean;
+  // Some cities could not be checked against Wikipedia (kept without a
+  // description); such entries use DEGRADED_TTL
+  stale?: boolean;
 }
 
-class LRUCache<T> {
-  private cache = new Map<string, CacheEntry<T>>();
-  private maxSize: number;
-
-  constructor(maxSize: number) {
-    this.maxSize = maxSize;
-  }
-
-  get(key: string): T | null {
-    const entry = this.cache.get(key);
+const wikiKey = (title: string, lang: WikiLang) => `${lang}:${title}`;
 
-    if (!entry) return null;
-
-    // Check expiry
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
+export type CacheNamespace = "pollution" | "wiki" | "country" | "snapshot";
 
-    // Move to end (most recently used)
-    this.cache.delete(key);
-    this.cache.set(key, entry);
+export type CacheDump = Record<
+  CacheNamespace,
+  Array<[string, CacheEntry<unknown>]>
+>;
 
-    return entry.data;
-  }
-
-  set(key: string, data: T, ttl: number): void {
-    this.cache.delete(key);
+// Frozen ranking handed out to cursor pagination
+export interface CitySnapshot {
+  countries: SupportedCountry[];
+  view: RankingView;
+  cities: CountryCacheData["cities"];
+  isComplete: boolean;
+  stale: boolean; // built from stale or unverified data
+  // Set when the snapshot resumes an expired one: only cities ranked after
+  // this position may be appended
+  resumeAfter: { pollution: number; key: string; name: string } | null;
+  // Entries handed out so far; late cities are only ranked after them
+  served: number;
+  createdAt: number;
+}
 
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl,
-    });
+export class CacheService {
+  private redis: RedisConnection | null;
+  private pollutionCache: CacheStore<any>;
+  private wikiCache: CacheStore<WikiSummary>;
+  private countryCache: CacheStore<CountryCacheData>;
+  private snapshotCache: CacheStore<CitySnapshot>;
 
-    if (this.cache.size > this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-      }
-    }
-  }
+  constructor(backend: "memory" | "redis" = env.cacheBackend) {
+    this.redis = backend === "redis" ? connectRedis(env.redisUrl) : null;
 
-  clear(): void {
-    this.cache.clear();
+    this.pollutionCache = this.createStore(
+      "pollution",
+      CACHE_CONFIG.POLLUTION_CACHE_SIZE
+    );
+    this.wikiCache = this.createStore(
+      "wiki",
+      CACHE_CONFIG.WIKIPEDIA_CACHE_SIZE,
+      CACHE_CONFIG.STALE_RETENTION
+    );
+    this.countryCache = this.createStore(
+      "country",
+      CACHE_CONFIG.COUNTRY_CACHE_SIZE,
+      CACHE_CONFIG.STALE_RETENTION
+    );
+    this.snapshotCache = this.createStore(
+      "snapshot",
+      CACHE_CONFIG.SNAPSHOT_CACHE_SIZE
+    );
   }
 
-  size(): number {
-    return this.cache.size;
+  private createStore<T>(
+    namespace: string,
+    maxSize: number,
+    retainStaleMs = 0
+  ): CacheStore<T> {
+    return this.redis
+      ? new RedisStore<T>(
+          this.redis,
+          namespace,
+          maxSize,
+          env.redisKeyPrefix,
+          retainStaleMs
+        )
+      : new LRUCache<T>(maxSize, retainStaleMs, namespace);
   }
-}
 
-export class CacheService {
-  private pollutionCache = new LRUCache<any>(CACHE_CONFIG.POLLUTION_CACHE_SIZE);
-  private wikiCache = new LRUCache<string | null>(
-    CACHE_CONFIG.WIKIPEDIA_CACHE_SIZE
-  );
-  private countryCache = new LRUCache<CountryCacheData>(
-    CACHE_CONFIG.COUNTRY_CACHE_SIZE
-  );
-
-  getPollutionPage(country: string, page: number, limit: number): any | null {
+  async getPollutionPage(
+    country: string,
+    page: number,
+    limit: number
+  ): Promise<any | null> {
     const key = `${country}:${page}:${limit}`;
     return this.pollutionCache.get(key);
   }
 
-  setPollutionPage(
+  async setPollutionPage(
     country: string,
     page: number,
     limit: number,
     data: any,
     ttl = CACHE_CONFIG.POLLUTION_TTL
-  ): void {
+  ): Promise<void> {
     const key = `${country}:${page}:${limit}`;
-    this.pollutionCache.set(key, data, ttl);
+    await this.pollutionCache.set(key, data, ttl);
   }
 
-  getWikiDescription(title: string): string | null | undefined {
-    const result = this.wikiCache.get(title);
-    return result === null ? undefined : result;
+  // Summaries are cached per Wikipedia edition
+  async getWikiSummary(
+    title: string,
+    lang: WikiLang = "en"
+  ): Promise<WikiSummary | undefined> {
+    const result = await this.wikiCache.get(wikiKey(title, lang));
+    return result ?? undefined;
   }
 
-  setWikiDescription(
+  async setWikiSummary(
     title: string,
-    description: string | null,
+    summary: WikiSummary,
+    lang: WikiLang = "en",
     ttl = CACHE_CONFIG.WIKIPEDIA_TTL
-  ): void {
-    this.wikiCache.set(title, description, ttl);
+  ): Promise<void> {
+    await this.wikiCache.set(wikiKey(title, lang), summary, ttl);
   }
 
-  getWikiDescriptionsBatch(
-    titles: string[]
-  ): Map<string, string | null | undefined> {
-    const result = new Map<string, string | null | undefined>();
+  // Expired but retained summary; null when there is none to fall back to
+  async getStaleWikiSummary(
+    title: string,
+    lang: WikiLang = "en"
+  ): Promise<WikiSummary | null> {
+    return this.wikiCache.getStale(wikiKey(title, lang));
+  }
+
+  async getWikiSummariesBatch(
+    titles: string[],
+    lang: WikiLang = "en"
+  ): Promise<Map<string, WikiSummary | undefined>> {
+    const result = new Map<string, WikiSummary | undefined>();
+    const cached = await this.wikiCache.getMany(
+      titles.map((title) => wikiKey(title, lang))
+    );
 
     titles.forEach((title) => {
-      const cached = this.getWikiDescription(title);
-      result.set(title, cached);
+      result.set(title, cached.get(wikiKey(title, lang)) ?? undefined);
     });
 
     return result;
   }
 
-  getCountryCache(country: string): CountryCacheData | null {
+  async getCountryCache(country: string): Promise<CountryCacheData | null> {
     return this.countryCache.get(country);
   }
 
-  setCountryCache(
+  async getStaleCountryCache(
+    country: string
+  ): Promise<CountryCacheData | null> {
+    return this.countryCache.getStale(country);
+  }
+
+  async setCountryCache(
     country: string,
     data: CountryCacheData,
     ttl = CACHE_CONFIG.COUNTRY_TTL
-  ): void {
-    this.countryCache.set(country, data, ttl);
+  ): Promise<void> {
+    await this.countryCache.set(country, data, ttl);
+  }
+
+  async getCitySnapshot(id: string): Promise<CitySnapshot | null> {
+    return this.snapshotCache.get(id);
+  }
+
+  async setCitySnapshot(
+    id: string,
+    data: CitySnapshot,
+    ttl = CACHE_CONFIG.SNAPSHOT_TTL
+  ): Promise<void> {
+    await this.snapshotCache.set(id, data, ttl);
+  }
+
+  private stores(): Record<CacheNamespace, CacheStore<any>> {
+    return {
+      pollution: this.pollutionCache,
+      wiki: this.wikiCache,
+      country: this.countryCache,
+      snapshot: this.snapshotCache,
+    };
+  }
+
+  // Every live entry, with original timestamps and TTLs
+  async exportEntries(): Promise<CacheDump> {
+    const stores = this.stores();
+    return {
+      pollution: await stores.pollution.entries(),
+      wiki: await stores.wiki.entries(),
+      country: await stores.country.entries(),
+      snapshot: await stores.snapshot.entries(),
+    };
+  }
+
+  // Restore an export; returns how many entries were still valid
+  async importEntries(dump: Partial<CacheDump>): Promise<number> {
+    let restored = 0;
+    for (const [namespace, store] of Object.entries(this.stores())) {
+      for (const [key, entry] of dump[namespace as CacheNamespace] ?? []) {
+        if (
+          typeof key !== "string" ||
+          !Number.isFinite(entry?.timestamp) ||
+          !Number.isFinite(entry?.ttl) ||
+          Date.now() - entry.timestamp > entry.ttl
+        )
+          continue;
+        await store.restore(key, entry);
+        restored++;
+      }
+    }
+    return restored;
+  }
+
+  // Targeted invalidation (admin API); each returns what was removed
+
+  async deletePollutionPage(
+    country: string,
+    page: number,
+    limit: number
+  ): Promise<boolean> {
+    return this.pollutionCache.delete(`${country}:${page}:${limit}`);
+  }
+
+  // Drops the title from every Wikipedia edition
+  async deleteWikiSummary(title: string): Promise<boolean> {
+    let removed = false;
+    for (const lang of countryRegistry.wikiLanguages) {
+      removed = (await this.wikiCache.delete(wikiKey(title, lang))) || removed;
+    }
+    return removed;
   }
 
-  clearCache(): void {
-    this.pollutionCache.clear();
-    this.wikiCache.clear();
-    this.countryCache.clear();
+  // The country's ranking and every cached upstream page for it
+  async deleteCountry(
+    country: string
+  ): Promise<{ entry: boolean; pollutionPages: number }> {
+    return {
+      entry: await this.countryCache.delete(country),
+      pollutionPages: await this.pollutionCache.deletePrefix(`${country}:`),
+    };
   }
 
-  getCacheStats(): {
+  async clearCache(): Promise<void> {
+    await this.pollutionCache.clear();
+    await this.wikiCache.clear();
+    await this.countryCache.clear();
+    await this.snapshotCache.clear();
+  }
+
+  async getCacheStats(): Promise<{
+    backend: "memory" | "redis";
+    redisConnected: boolean;
     totalKeys: number;
     pollutionKeys: number;
     wikiKeys: number;
     countryKeys: number;
-  } {
-    return {
-      totalKeys:
-        this.pollutionCache.size() +
-        this.wikiCache.size() +
+    snapshotKeys: number;
+  }> {
+    const [pollutionKeys, wikiKeys, countryKeys, snapshotKeys] =
+      await Promise.all([
+        this.pollutionCache.size(),
+        this.wikiCache.size(),
         this.countryCache.size(),
-      pollutionKeys: this.pollutionCache.size(),
-      wikiKeys: this.wikiCache.size(),
-      countryKeys: this.countryCache.size(),
+        this.snapshotCache.size(),
+      ]);
+
+    return {
+      backend: this.redis ? "redis" : "memory",
+      redisConnected: this.redis?.isReady ?? false,
+      totalKeys: pollutionKeys + wikiKeys + countryKeys + snapshotKeys,
+      pollutionKeys,
+      wikiKeys,
+      countryKeys,
+      snapshotKeys,
     };
   }
+
+  async disconnect(): Promise<void> {
+    if (this.redis?.isOpen) await this.redis.close();
+  }
 }
 
 export const cacheService = new CacheService();
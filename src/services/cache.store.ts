@@ -0,0 +1,388 @@
+import { createClient } from "redis";
+import { logger } from "../utils/logger";
+import { cacheEvents } from "../utils/metrics";
+
+export interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+// Backend-agnostic key/value store with per-entry TTLs
+export interface CacheStore<T> {
+  get(key: string): Promise<T | null>;
+  // Like get, but also returns expired entries that are still retained
+  // (see `retainStaleMs`); used as a fallback while upstream is down
+  getStale(key: string): Promise<T | null>;
+  getMany(keys: string[]): Promise<Map<string, T | null>>;
+  set(key: string, data: T, ttl: number): Promise<void>;
+  // Both return whether / how many entries were removed
+  delete(key: string): Promise<boolean>;
+  deletePrefix(prefix: string): Promise<number>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+  // Live entries with their original timestamps, least recently used first
+  entries(): Promise<Array<[string, CacheEntry<T>]>>;
+  // Re-insert an exported entry; expired entries are dropped
+  restore(key: string, entry: CacheEntry<T>): Promise<void>;
+}
+
+export type RedisConnection = ReturnType<typeof createClient>;
+
+export class LRUCache<T> implements CacheStore<T> {
+  private cache = new Map<string, CacheEntry<T>>();
+  private maxSize: number;
+  private retainStaleMs: number;
+  private name: string;
+
+  // Expired entries are kept for another `retainStaleMs` for getStale;
+  // `name` labels this cache's hit/miss/eviction metrics
+  constructor(maxSize: number, retainStaleMs = 0, name = "default") {
+    this.maxSize = maxSize;
+    this.retainStaleMs = retainStaleMs;
+    this.name = name;
+  }
+
+  private count(event: "hit" | "miss" | "eviction") {
+    cacheEvents.inc({ cache: this.name, backend: "memory", event });
+  }
+
+  private evictOverflow(): void {
+    if (this.cache.size > this.maxSize) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey) {
+        this.cache.delete(firstKey);
+        this.count("eviction");
+      }
+    }
+  }
+
+  async get(key: string): Promise<T | null> {
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      this.count("miss");
+      return null;
+    }
+
+    // Check expiry
+    const age = Date.now() - entry.timestamp;
+    if (age > entry.ttl) {
+      if (age > entry.ttl + this.retainStaleMs) this.cache.delete(key);
+      this.count("miss");
+      return null;
+    }
+
+    // Move to end (most recently used)
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    this.count("hit");
+    return entry.data;
+  }
+
+  async getStale(key: string): Promise<T | null> {
+    const entry = this.cache.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.timestamp > entry.ttl + this.retainStaleMs) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    return entry.data;
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, T | null>> {
+    const result = new Map<string, T | null>();
+    for (const key of keys) result.set(key, await this.get(key));
+    return result;
+  }
+
+  async set(key: string, data: T, ttl: number): Promise<void> {
+    this.cache.delete(key);
+
+    this.cache.set(key, {
+      data,
+      timestamp: Date.now(),
+      ttl,
+    });
+
+    this.evictOverflow();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.cache.delete(key);
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of Array.from(this.cache.keys())) {
+      if (key.startsWith(prefix) && this.cache.delete(key)) removed++;
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.cache.size;
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry<T>]>> {
+    const now = Date.now();
+    return Array.from(this.cache.entries()).filter(
+      ([, entry]) => now - entry.timestamp <= entry.ttl
+    );
+  }
+
+  async restore(key: string, entry: CacheEntry<T>): Promise<void> {
+    if (Date.now() - entry.timestamp > entry.ttl) return;
+
+    this.cache.delete(key);
+    this.cache.set(key, { ...entry });
+
+    this.evictOverflow();
+  }
+}
+
+/**
+ * Redis-backed store. Entries are JSON under `<prefix>:<namespace>:<key>`
+ * and expire through PX (after TTL + retainStaleMs), so every instance
+ * behind the load balancer shares one warm cache. Size limits are left to
+ * Redis' maxmemory policy.
+ *
+ * Whenever Redis is not connected (or a command fails) the store falls
+ * back to a local LRU, so an outage degrades to per-instance caching
+ * instead of failing requests.
+ */
+export class RedisStore<T> implements CacheStore<T> {
+  private fallback: LRUCache<T>;
+
+  constructor(
+    private readonly redis: RedisConnection,
+    private readonly namespace: string,
+    fallbackSize: number,
+    private readonly prefix: string,
+    private readonly retainStaleMs = 0
+  ) {
+    this.fallback = new LRUCache<T>(fallbackSize, retainStaleMs, namespace);
+  }
+
+  private redisKey(key: string): string {
+    return `${this.prefix}:${this.namespace}:${key}`;
+  }
+
+  // Stored as a CacheEntry so expired-but-retained entries can be told apart
+  private parse(raw: string | null, allowStale: boolean): T | null {
+    if (raw === null) return null;
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    if (!Number.isFinite(entry?.timestamp)) return null;
+    if (!allowStale && Date.now() - entry.timestamp > entry.ttl) return null;
+    return entry.data;
+  }
+
+  // Fallback lookups are counted by the LRU under backend="memory"
+  private count(value: T | null): T | null {
+    cacheEvents.inc({
+      cache: this.namespace,
+      backend: "redis",
+      event: value === null ? "miss" : "hit",
+    });
+    return value;
+  }
+
+  private warn(op: string, error: any) {
+    logger.warn("Redis command failed, using memory cache", {
+      op,
+      namespace: this.namespace,
+      error,
+    });
+  }
+
+  async get(key: string): Promise<T | null> {
+    if (!this.redis.isReady) return this.fallback.get(key);
+
+    try {
+      return this.count(
+        this.parse(await this.redis.get(this.redisKey(key)), false)
+      );
+    } catch (error) {
+      this.warn("get", error);
+      return this.fallback.get(key);
+    }
+  }
+
+  async getStale(key: string): Promise<T | null> {
+    if (!this.redis.isReady) return this.fallback.getStale(key);
+
+    try {
+      return this.parse(await this.redis.get(this.redisKey(key)), true);
+    } catch (error) {
+      this.warn("get", error);
+      return this.fallback.getStale(key);
+    }
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, T | null>> {
+    if (!keys.length) return new Map();
+    if (!this.redis.isReady) return this.fallback.getMany(keys);
+
+    try {
+      const raws = await this.redis.mGet(keys.map((k) => this.redisKey(k)));
+      const result = new Map<string, T | null>();
+      keys.forEach((key, i) => {
+        result.set(key, this.count(this.parse(raws[i] ?? null, false)));
+      });
+      return result;
+    } catch (error) {
+      this.warn("mget", error);
+      return this.fallback.getMany(keys);
+    }
+  }
+
+  async set(key: string, data: T, ttl: number): Promise<void> {
+    if (!this.redis.isReady) return this.fallback.set(key, data, ttl);
+
+    try {
+      const entry: CacheEntry<T> = { data, timestamp: Date.now(), ttl };
+      await this.redis.set(this.redisKey(key), JSON.stringify(entry), {
+        expiration: {
+          type: "PX",
+          value: Math.max(1, Math.round(ttl + this.retainStaleMs)),
+        },
+      });
+    } catch (error) {
+      this.warn("set", error);
+      await this.fallback.set(key, data, ttl);
+    }
+  }
+
+  // The fallback is always cleaned too, so nothing stale resurfaces once
+  // Redis drops out
+  async delete(key: string): Promise<boolean> {
+    const local = await this.fallback.delete(key);
+    if (!this.redis.isReady) return local;
+
+    try {
+      return (await this.redis.unlink(this.redisKey(key))) > 0 || local;
+    } catch (error) {
+      this.warn("unlink", error);
+      return local;
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    const local = await this.fallback.deletePrefix(prefix);
+    if (!this.redis.isReady) return local;
+
+    try {
+      let removed = 0;
+      for await (const keys of this.redis.scanIterator({
+        MATCH: this.redisKey(`${prefix}*`),
+        COUNT: 500,
+      })) {
+        if (keys.length) removed += await this.redis.unlink(keys);
+      }
+      return Math.max(removed, local);
+    } catch (error) {
+      this.warn("scan", error);
+      return local;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.fallback.clear();
+    if (!this.redis.isReady) return;
+
+    try {
+      for await (const keys of this.redis.scanIterator({
+        MATCH: this.redisKey("*"),
+        COUNT: 500,
+      })) {
+        if (keys.length) await this.redis.unlink(keys);
+      }
+    } catch (error) {
+      this.warn("clear", error);
+    }
+  }
+
+  async size(): Promise<number> {
+    if (!this.redis.isReady) return this.fallback.size();
+
+    try {
+      let count = 0;
+      for await (const keys of this.redis.scanIterator({
+        MATCH: this.redisKey("*"),
+        COUNT: 500,
+      })) {
+        count += keys.length;
+      }
+      return count;
+    } catch (error) {
+      this.warn("scan", error);
+      return this.fallback.size();
+    }
+  }
+
+  // Redis persists itself; only the local fallback needs snapshotting
+  async entries(): Promise<Array<[string, CacheEntry<T>]>> {
+    return this.fallback.entries();
+  }
+
+  async restore(key: string, entry: CacheEntry<T>): Promise<void> {
+    return this.fallback.restore(key, entry);
+  }
+}
+
+// For logs: REDIS_URL may carry a password
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.username = "";
+    parsed.password = "";
+    return parsed.toString();
+  } catch {
+    return "(invalid URL)";
+  }
+}
+
+/**
+ * Connect in the background: requests are served from the memory fallback
+ * until Redis is ready, and again whenever the connection drops.
+ */
+export function connectRedis(url: string): RedisConnection {
+  const client = createClient({
+    url,
+    disableOfflineQueue: true, // fail fast (-> fallback) while disconnected
+    socket: {
+      connectTimeout: 2000,
+      reconnectStrategy: (retries) => Math.min(retries * 500, 5000),
+    },
+  });
+
+  const safeUrl = redactUrl(url);
+  let reportedDown = false;
+  client.on("ready", () => {
+    reportedDown = false;
+    logger.info("Redis cache connected", { url: safeUrl });
+  });
+  client.on("error", (error) => {
+    // The client keeps reconnecting; report the outage once
+    if (!reportedDown) {
+      reportedDown = true;
+      logger.warn("Redis cache unreachable, falling back to memory", {
+        url: safeUrl,
+        error,
+      });
+    }
+  });
+
+  client.connect().catch((error) => {
+    logger.warn("Redis connect failed", { url: safeUrl, error });
+  });
+
+  return client;
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { CACHE_CONFIG, WARMER_CONFIG } from "../utils/constants";
+import { cacheService } from "./cache.service";
+import { CityService } from "./city.service";
+import { logger } from "../utils/logger";
+import { runWithRequestId } from "../utils/requestContext";
+
+export type WarmerOutcome = "never" | "running" | "success" | "error";
+
+export interface WarmerCountryStatus {
+  country: SupportedCountry;
+  outcome: WarmerOutcome;
+  lastRunAt: string | null;
+  lastDurationMs: number | null;
+  error: string | null;
+  cities: number | null;
+  isComplete: boolean | null;
+}
+
+class WarmerStoppedError extends Error {}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Refresh-ahead warmer: keeps every supported country's CountryCacheData
+ * built so user requests rarely pay for an upstream crawl.
+ *
+ * Each tick refreshes at most one country (the one missing or oldest past
+ * REFRESH_AFTER). Upstream pages are fetched at background priority and at
+ * least MIN_PAGE_GAP_MS apart, so user traffic keeps its share of the
+ * pollution API budget.
+ */
+export class CacheWarmer {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopped = true;
+  private lastPageAt = 0;
+  private status = new Map<SupportedCountry, WarmerCountryStatus>(
+    countryRegistry.codes.map((country) => [
+      country,
+      {
+        country,
+        outcome: "never",
+        lastRunAt: null,
+        lastDurationMs: null,
+        error: null,
+        cities: null,
+        isComplete: null,
+      },
+    ])
+  );
+
+  constructor(private readonly cityService: CityService) {}
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.schedule(WARMER_CONFIG.INITIAL_DELAY_MS);
+    logger.info("Cache warmer started", { countries: countryRegistry.codes });
+  }
+
+  // Cancels the next tick and waits for an in-flight refresh to abort
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  getStatus(): { running: boolean; countries: WarmerCountryStatus[] } {
+    return {
+      running: !this.stopped,
+      countries: countryRegistry.codes.map((c) => ({
+        ...this.status.get(c)!,
+      })),
+    };
+  }
+
+  private schedule(delay: number) {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => {
+      this.running = this.tick().finally(() => {
+        this.running = null;
+        this.schedule(WARMER_CONFIG.TICK_MS);
+      });
+    }, delay);
+    this.timer.unref();
+  }
+
+  private async tick(): Promise<void> {
+    const country = await this.nextCountry();
+    // Background runs get their own id so their upstream calls can be traced
+    if (country) {
+      await runWithRequestId(`warmer-${randomUUID()}`, () =>
+        this.refresh(country)
+      );
+    }
+  }
+
+  // Missing entries first, then the oldest one past the refresh threshold
+  private async nextCountry(): Promise<SupportedCountry | null> {
+    const refreshAfter =
+      CACHE_CONFIG.COUNTRY_TTL * WARMER_CONFIG.REFRESH_AFTER;
+    let oldest: { country: SupportedCountry; timestamp: number } | null = null;
+
+    for (const country of countryRegistry.codes) {
+      const cached = await cacheService.getCountryCache(country);
+      if (!cached) return country;
+
+      if (
+        Date.now() - cached.timestamp >= refreshAfter &&
+        (!oldest || cached.timestamp < oldest.timestamp)
+      ) {
+        oldest = { country, timestamp: cached.timestamp };
+      }
+    }
+
+    return oldest?.country ?? null;
+  }
+
+  private async refresh(country: SupportedCountry): Promise<void> {
+    const status = this.status.get(country)!;
+    const startedAt = Date.now();
+    status.outcome = "running";
+    status.lastRunAt = new Date(startedAt).toISOString();
+
+    try {
+      const result = await this.cityService.refreshCountry(country, () =>
+        this.beforePage()
+      );
+      status.outcome = "success";
+      status.error = null;
+      status.cities = result.cities;
+      status.isComplete = result.isComplete;
+    } catch (error: any) {
+      if (error instanceof WarmerStoppedError) {
+        logger.info("Cache warmer stopped mid-refresh", { country });
+      } else {
+        logger.error("Cache warmer refresh failed", { country, error });
+      }
+      status.outcome = "error";
+      status.error = error.message;
+    } finally {
+      status.lastDurationMs = Date.now() - startedAt;
+    }
+  }
+
+  // Pace upstream pages; the rate limiter keeps slots free for users
+  private async beforePage(): Promise<void> {
+    if (this.stopped) throw new WarmerStoppedError("Warmer stopped");
+
+    const gap = this.lastPageAt + WARMER_CONFIG.MIN_PAGE_GAP_MS - Date.now();
+    if (gap > 0) await sleep(gap);
+
+    if (this.stopped) throw new WarmerStoppedError("Warmer stopped");
+    this.lastPageAt = Date.now();
+  }
+}
@@ -0,0 +1,274 @@
+import { readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { env } from "../config/env";
+import { AppError } from "../errors/AppError";
+import { searchKey } from "../utils/citySearch";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { OVERRIDE_ACTIONS, OverrideAction } from "../utils/constants";
+import { logger } from "../utils/logger";
+
+export interface CityOverride {
+  country: SupportedCountry;
+  name: string; // as entered; matched folded (see overrideKey)
+  action: OverrideAction | null;
+  wikiTitle: string | null; // exact title, never retried or disambiguated
+  displayName: string | null;
+  aliasOf: string | null; // canonical city this name merges into
+  note: string | null;
+  updatedAt: string;
+}
+
+export type OverrideInput = Partial<
+  Pick<
+    CityOverride,
+    "action" | "wikiTitle" | "displayName" | "aliasOf" | "note"
+  >
+>;
+
+// Override for a name of one country, if any
+export type OverrideLookup = (name: string) => CityOverride | undefined;
+
+interface OverridesFile {
+  version: number;
+  overrides: CityOverride[];
+}
+
+const OVERRIDES_FILE_VERSION = 1;
+const MAX_FIELD_LENGTH = 200;
+
+// "Bielsko-Biała", "Bielsko Biala" and the wiki title "Bielsko_Biała"
+// share one key
+export const overrideKey = (country: SupportedCountry, name: string) =>
+  `${country}|${searchKey(name.replace(/[_‐-―-]+/g, " "), country)}`;
+
+const optionalText = (raw: any, field: string): string | null => {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== "string") throw new Error(`${field} must be a string`);
+  const text = raw.replace(/\s+/g, " ").trim();
+  if (text.length > MAX_FIELD_LENGTH) {
+    throw new Error(`${field} must be at most ${MAX_FIELD_LENGTH} characters`);
+  }
+  return text || null;
+};
+
+// Validate one entry; throws on the first problem found
+export function parseOverride(
+  country: SupportedCountry,
+  name: string,
+  raw: any
+): CityOverride {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("Override must be an object");
+  }
+
+  const cleanName = optionalText(name, "name");
+  if (!cleanName || !searchKey(cleanName, country)) {
+    throw new Error("name must contain letters or digits");
+  }
+
+  const action = raw.action ?? null;
+  if (action !== null && !OVERRIDE_ACTIONS.includes(action)) {
+    throw new Error(`action must be one of: ${OVERRIDE_ACTIONS.join(", ")}`);
+  }
+
+  const entry: CityOverride = {
+    country,
+    name: cleanName,
+    action,
+    wikiTitle: optionalText(raw.wikiTitle, "wikiTitle"),
+    displayName: optionalText(raw.displayName, "displayName"),
+    aliasOf: optionalText(raw.aliasOf, "aliasOf"),
+    note: optionalText(raw.note, "note"),
+    updatedAt:
+      typeof raw.updatedAt === "string"
+        ? raw.updatedAt
+        : new Date().toISOString(),
+  };
+
+  if (
+    !entry.action &&
+    !entry.wikiTitle &&
+    !entry.displayName &&
+    !entry.aliasOf
+  ) {
+    throw new Error(
+      "Set at least one of action, wikiTitle, displayName or aliasOf"
+    );
+  }
+  if (entry.aliasOf) {
+    if (entry.action === "deny") {
+      throw new Error("An alias cannot also be denied");
+    }
+    if (overrideKey(country, entry.aliasOf) === overrideKey(country, name)) {
+      throw new Error("aliasOf must name a different city");
+    }
+  }
+  return entry;
+}
+
+/**
+ * Curated corrections for names the heuristics always get wrong, keyed by
+ * country and folded name. An entry can force a name in (`allow`) or out
+ * (`deny`), pin the exact Wikipedia title, rename it (`displayName`), or
+ * merge it into a canonical city (`aliasOf`). Consulted by `classify` and
+ * `WikipediaClient.checkTitles`.
+ *
+ * Entries live in memory and, with CITY_OVERRIDES_FILE, are saved to that
+ * file after every change (write-then-rename). Changes are applied one at
+ * a time, and only once the file is written.
+ */
+class CityOverrides {
+  private entries = new Map<string, CityOverride>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string) {
+    // Like the classification rules, a broken file stops the server
+    if (file) this.entries = this.load(file);
+  }
+
+  forCountry(country: SupportedCountry): OverrideLookup {
+    return (name) => this.entries.get(overrideKey(country, name));
+  }
+
+  get(country: SupportedCountry, name: string): CityOverride | undefined {
+    return this.entries.get(overrideKey(country, name));
+  }
+
+  // Name a city is listed under: its alias target and/or display name
+  listedName(country: SupportedCountry, name: string): string {
+    const entry = this.get(country, name);
+    if (entry?.aliasOf) {
+      return this.get(country, entry.aliasOf)?.displayName ?? entry.aliasOf;
+    }
+    return entry?.displayName ?? name;
+  }
+
+  list(country?: SupportedCountry): CityOverride[] {
+    return [...this.entries.values()]
+      .filter((e) => !country || e.country === country)
+      .sort(
+        (a, b) =>
+          a.country.localeCompare(b.country) || a.name.localeCompare(b.name)
+      );
+  }
+
+  // Create or replace; returns the entry it replaced, if any
+  set(
+    country: SupportedCountry,
+    name: string,
+    input: OverrideInput
+  ): Promise<{ entry: CityOverride; previous: CityOverride | null }> {
+    return this.change((next) => {
+      let entry: CityOverride;
+      try {
+        entry = parseOverride(country, name, {
+          ...input,
+          updatedAt: undefined,
+        });
+      } catch (error: any) {
+        throw AppError.badRequest(error.message);
+      }
+
+      // One level only: an alias may not point at (or be) another alias
+      const key = overrideKey(country, name);
+      if (entry.aliasOf) {
+        const target = next.get(overrideKey(country, entry.aliasOf));
+        if (target?.aliasOf) {
+          throw AppError.badRequest(
+            `"${entry.aliasOf}" is itself an alias of "${target.aliasOf}"`
+          );
+        }
+        const aliased = [...next.values()].find(
+          (e) =>
+            e.country === country &&
+            e.aliasOf &&
+            overrideKey(country, e.aliasOf) === key
+        );
+        if (aliased) {
+          throw AppError.badRequest(
+            `"${aliased.name}" is an alias of this name`
+          );
+        }
+      }
+
+      const previous = next.get(key) ?? null;
+      next.set(key, entry);
+      return { entry, previous };
+    });
+  }
+
+  remove(country: SupportedCountry, name: string) {
+    return this.change((next) => {
+      const key = overrideKey(country, name);
+      const previous = next.get(key) ?? null;
+      next.delete(key);
+      return previous;
+    });
+  }
+
+  // Apply a change to a copy, save it, then make it active
+  private change<T>(apply: (next: Map<string, CityOverride>) => T) {
+    const run = this.queue.then(async () => {
+      const next = new Map(this.entries);
+      const result = apply(next);
+      if (this.file) await this.save(next);
+      this.entries = next;
+      return result;
+    });
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async save(entries: Map<string, CityOverride>) {
+    const data: OverridesFile = {
+      version: OVERRIDES_FILE_VERSION,
+      overrides: [...entries.values()],
+    };
+
+    const tmp = `${this.file}.tmp`;
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+    await rename(tmp, this.file);
+  }
+
+  private load(file: string): Map<string, CityOverride> {
+    const entries = new Map<string, CityOverride>();
+
+    let data: OverridesFile;
+    try {
+      data = JSON.parse(readFileSync(file, "utf8"));
+    } catch (error: any) {
+      // Nothing saved yet
+      if (error?.code === "ENOENT") return entries;
+      throw error;
+    }
+
+    if (data?.version !== OVERRIDES_FILE_VERSION) {
+      throw new Error(
+        `${file}: "version" must be ${OVERRIDES_FILE_VERSION}`
+      );
+    }
+    if (!Array.isArray(data.overrides)) {
+      throw new Error(`${file}: "overrides" must be an array`);
+    }
+
+    data.overrides.forEach((raw: any, index) => {
+      const where = `${file}: overrides[${index}]`;
+      if (!countryRegistry.has(raw?.country)) {
+        throw new Error(`${where}: unsupported country "${raw?.country}"`);
+      }
+      try {
+        const entry = parseOverride(raw.country, raw.name, raw);
+        entries.set(overrideKey(entry.country, entry.name), entry);
+      } catch (error: any) {
+        throw new Error(`${where}: ${error.message}`);
+      }
+    });
+
+    logger.info("City overrides loaded", { file, overrides: entries.size });
+    return entries;
+  }
+}
+
+export const cityOverrides = new CityOverrides(env.cityOverridesFile);
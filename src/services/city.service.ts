@@ -1,70 +1,944 @@
+import { createHash, randomUUID } from "crypto";
 import { PolluApiClient } from "../external/polluApi.client";
-import { WikipediaClient } from "../external/wikipedia.client";
+import {
+  TitleAttempt,
+  WikipediaClient,
+} from "../external/wikipedia.client";
+import type { CityFacts } from "../external/wikidata.client";
+import { Coordinates, GeoIndex } from "../utils/geoIndex";
 import { asciiFold } from "../utils/asciiFold";
-import { classify } from "../utils/cityFilter";
-import { cacheService } from "./cache.service";
-import { SupportedCountry, API_LIMITS } from "../utils/constants";
+import { classify, Verdict } from "../utils/cityFilter";
+import { AppError } from "../errors/AppError";
+import {
+  cacheService,
+  CitySnapshot,
+  CountryCacheData,
+} from "./cache.service";
+import { CityCursor, RankingView, encodeCursor } from "../utils/cursor";
+import { SingleFlight } from "../utils/singleFlight";
+import { logger } from "../utils/logger";
+import { classifyVerdicts } from "../utils/metrics";
+import { classificationRules } from "../config/classificationRules";
+import { CityOverride, cityOverrides } from "./city.overrides";
+import {
+  HistoryPoint,
+  pollutionHistory,
+  PollutionChange,
+} from "./pollution.history";
+import {
+  CityMatch,
+  MATCH_QUALITY,
+  matchCity,
+  searchKey,
+} from "../utils/citySearch";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import {
+  API_LIMITS,
+  Consistency,
+  SEARCH_LIMITS,
+  EXPLAIN_LIMITS,
+  CACHE_CONFIG,
+  CitySort,
+  WARMER_CONFIG,
+  WikiLang,
+  NEARBY_LIMITS,
+  NearbySort,
+} from "../utils/constants";
 
 export interface CityResult {
   country: SupportedCountry;
   city: string;
   pollution: number;
   description: string | null;
+  // Wikipedia edition of `description`; absent means English
+  descriptionLang?: WikiLang;
+  // From the city's Wikidata item; null when it has none or was unreachable
+  population: number | null;
+  officialName: string | null;
+  // Primary coordinates of the city's English Wikipedia article
+  coordinates: Coordinates | null;
+  classification: {
+    verdict: "keep" | "salvage";
+    reason: string;
+    confidence: number;
+  };
 }
 
+export interface CityDetail extends CityResult {
+  rank: number; // 1-based position in the complete country ranking
+  totalRanked: number | null; // null until the country is fully crawled
+  stale: boolean;
+}
+
+export interface CitySearchHit extends CityResult {
+  match: CityMatch;
+}
+
+export interface NearbyCity extends CityResult {
+  distanceKm: number;
+}
+
+export interface RankingOptions {
+  consistency?: Consistency;
+  sort?: CitySort;
+  minPollution?: number;
+  maxPollution?: number;
+}
+
+export interface CityPage {
+  cities: CityResult[];
+  hasMore: boolean;
+  nextCursor: string | null;
+  // True when the ranking covers every upstream page
+  isComplete: boolean;
+  // True when an upstream API was unreachable and cached data past its TTL
+  // (or cities not yet checked against Wikipedia) had to be served
+  stale: boolean;
+}
+
+// Why an upstream row did or did not become a listed city
+export type ExplainOutcome =
+  | "included"
+  | "unverified" // kept without description, Wikipedia could not answer
+  | "invalid-pollution"
+  | "rejected" // by classify
+  | "duplicate"
+  | "not-a-city"; // failed Wikipedia validation
+
+export interface ExplainRow {
+  page: number;
+  row: number; // 1-based position on the upstream page
+  name: unknown; // raw upstream values
+  pollution: unknown;
+  baseName: string | null; // normalized name the city would be listed as
+  englishName: string | null;
+  verdict: Verdict | null;
+  reason: string | null;
+  confidence: number | null;
+  duplicateOf: string | null; // earlier raw name with the same cityKey
+  wikipedia: {
+    title: string;
+    attempts: TitleAttempt[];
+    description: string | null;
+    facts: CityFacts | null; // from the page's Wikidata item
+  } | null;
+  outcome: ExplainOutcome;
+  listed: boolean; // present in the current country cache
+}
+
+export interface CityExplanation {
+  pages: number;
+  totalPages: number;
+  summary: Partial<Record<ExplainOutcome, number>>;
+  rows: ExplainRow[];
+}
+
+// Cities gathered for one or more countries
+type Collected = { cities: CityResult[]; isComplete: boolean; stale: boolean };
+
 const parsePollution = (v: unknown): number | null =>
   typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null;
 
 const cityKey = (name: string, country: CityResult["country"]) =>
   `${asciiFold(name, { removePunctuation: true }).toLowerCase()}|${country}`;
 
+// Wikipedia title (and wiki cache key) a city's description is looked up by
+export const toWikiTitle = (city: string): string => {
+  // Format wiki title for 2-word cities
+  if (city.split(" ").length !== 2) return city;
+
+  const cap = (w: string) =>
+    w ? w.charAt(0).toUpperCase() + w.slice(1).toLowerCase() : w;
+  const parts = city.split(/\s+/);
+  return parts.length === 2
+    ? `${cap(parts[0])}_${cap(parts[1])}`
+    : parts.map(cap).join(" ");
+};
+
+// Position of a city inside a ranking, also what cursors remember
+type RankPosition = { pollution: number; key: string; name: string };
+
+const toPosition = (city: CityResult): RankPosition => ({
+  pollution: city.pollution,
+  key: cityKey(city.city, city.country),
+  name: city.city,
+});
+
+// Merged rankings have no single locale, so they fall back to root collation
+const collatorFor = (countries: SupportedCountry[]) =>
+  new Intl.Collator(
+    countries.length === 1 ? countryRegistry.locale(countries[0]) : "und"
+  );
+
+// Total order for a view; ties are broken by key so paging is stable
+const rankComparator = (view: RankingView, countries: SupportedCountry[]) => {
+  const collator = collatorFor(countries);
+  const byKey = (a: RankPosition, b: RankPosition) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+
+  switch (view.sort) {
+    case "pollution_asc":
+      return (a: RankPosition, b: RankPosition) =>
+        a.pollution - b.pollution || byKey(a, b);
+    case "name":
+      return (a: RankPosition, b: RankPosition) =>
+        collator.compare(a.name, b.name) || byKey(a, b);
+    default:
+      return (a: RankPosition, b: RankPosition) =>
+        b.pollution - a.pollution || byKey(a, b);
+  }
+};
+
+const inView = (city: CityResult, view: RankingView) =>
+  (view.minPollution === null || city.pollution >= view.minPollution) &&
+  (view.maxPollution === null || city.pollution <= view.maxPollution);
+
+const rankCities = (
+  cities: CityResult[],
+  view: RankingView,
+  countries: SupportedCountry[]
+): CityResult[] => {
+  const compare = rankComparator(view, countries);
+  return cities
+    .filter((c) => inView(c, view))
+    .map((c) => ({ city: c, position: toPosition(c) }))
+    .sort((a, b) => compare(a.position, b.position))
+    .map((r) => r.city);
+};
+
+const ranksAfter = (
+  city: CityResult,
+  position: RankPosition | null,
+  view: RankingView,
+  countries: SupportedCountry[]
+) =>
+  !position ||
+  rankComparator(view, countries)(position, toPosition(city)) < 0;
+
+export const toRankingView = (options: RankingOptions): RankingView => ({
+  sort: options.sort ?? "pollution_desc",
+  minPollution: options.minPollution ?? null,
+  maxPollution: options.maxPollution ?? null,
+});
+
+const cursorAfter = (
+  countries: SupportedCountry[],
+  view: RankingView,
+  last: CityResult,
+  snapshotId: string,
+  offset: number
+) =>
+  encodeCursor({
+    countries,
+    view,
+    snapshotId,
+    offset,
+    ...toPosition(last),
+  });
+
 export class CityService {
+  // One crawl per country and target depth; concurrent callers share it
+  private crawlFlights = new SingleFlight<Collected>();
+
+  // Spatial index per country, kept until its country entry is replaced
+  private geoIndexes = new Map<
+    SupportedCountry,
+    { version: string; index: GeoIndex<CityResult> }
+  >();
+
   constructor(
     private readonly pollu: PolluApiClient,
     private readonly wiki: WikipediaClient
   ) {}
 
+  /**
+   * Page through the ranking of one or more countries. Several countries
+   * are merged into a single ranking; each city keeps its own country.
+   * Pollution filters may pull extra upstream pages to fill a page.
+   */
   async getMostPollutedByCountry(
-    country: CityResult["country"],
+    countries: SupportedCountry[],
     limit = 10,
-    page = 1
-  ): Promise<{ cities: CityResult[]; hasMore: boolean }> {
+    page = 1,
+    options: RankingOptions = {}
+  ): Promise<CityPage> {
     const offset = (page - 1) * limit;
     const want = Math.max(1, Math.min(limit, 50));
+    const view = toRankingView(options);
 
-    // Get from cache service
-    const cacheEntry = cacheService.getCountryCache(country);
+    // Any single country may fill the whole page, so each needs offset + want
+    const { cities, isComplete, stale } = await this.collectMatching(
+      countries,
+      offset + want,
+      view,
+      options.consistency
+    );
+
+    // Return paginated results
+    const ranked = rankCities(cities, view, countries);
+    const startIndex = offset;
+    const endIndex = Math.min(offset + want, ranked.length);
+    const result = ranked.slice(startIndex, endIndex);
+    // Matches past a partial crawl may still be upstream
+    const hasMore = endIndex < ranked.length || !isComplete;
+
+    logger.info("Returning page", {
+      countries,
+      page,
+      cities: result.length,
+      from: startIndex,
+      to: endIndex,
+      ranked: ranked.length,
+    });
+
+    // Hand out a cursor too, so page clients can switch to cursor mode
+    let nextCursor: string | null = null;
+    if (hasMore && result.length > 0) {
+      const snapshotId = await this.shareSnapshot({
+        countries,
+        view,
+        cities: ranked,
+        isComplete,
+        stale,
+        resumeAfter: null,
+        served: endIndex,
+        createdAt: Date.now(),
+      });
+      nextCursor = cursorAfter(
+        countries,
+        view,
+        result[result.length - 1],
+        snapshotId,
+        endIndex
+      );
+    }
+
+    return { cities: result, hasMore, nextCursor, isComplete, stale };
+  }
+
+  /**
+   * Cursor pagination. Pages are served from a frozen ranking snapshot, so
+   * re-sorting or extending the country cache never shifts a client's
+   * position. Cities discovered later are ranked into the part of the
+   * snapshot nobody has been handed yet; served positions never move, so
+   * the order is stable rather than a strict global ranking (a late city
+   * that outranks served ones comes right after them). If the snapshot has
+   * expired, or strict mode meets a snapshot from a partial crawl, a new
+   * one resumes after the cursor's city.
+   */
+  async getMostPollutedByCursor(
+    countries: SupportedCountry[],
+    limit = 10,
+    cursor: CityCursor | null = null,
+    options: RankingOptions = {}
+  ): Promise<CityPage> {
+    const want = Math.max(1, Math.min(limit, 50));
+    const view = cursor?.view ?? toRankingView(options);
+
+    let snapshotId = cursor?.snapshotId ?? "";
+    let offset = cursor?.offset ?? 0;
+    let snapshot = cursor
+      ? await cacheService.getCitySnapshot(snapshotId)
+      : null;
+
+    // A partial snapshot can't honour strict mode: rank everything afresh
+    // and resume after the cursor's city instead
+    const partial =
+      options.consistency === "strict" && snapshot?.isComplete === false;
+    if (partial) snapshot = null;
+
+    if (!snapshot) {
+      const resumeAfter: RankPosition | null = cursor
+        ? { pollution: cursor.pollution, key: cursor.key, name: cursor.name }
+        : null;
+
+      if (cursor) {
+        logger.info(
+          partial
+            ? "Cursor snapshot is partial, re-ranking for strict mode"
+            : "Cursor snapshot expired, resuming after cursor",
+          { snapshotId, countries, after: cursor.key }
+        );
+      }
+
+      const { cities, isComplete, stale } = await this.collectMatching(
+        countries,
+        want,
+        view,
+        options.consistency
+      );
+      snapshot = {
+        countries,
+        view,
+        cities: rankCities(cities, view, countries).filter((c) =>
+          ranksAfter(c, resumeAfter, view, countries)
+        ),
+        isComplete,
+        stale,
+        resumeAfter,
+        served: 0,
+        createdAt: Date.now(),
+      };
+      snapshotId = await this.saveSnapshot(snapshot);
+      offset = 0;
+    }
+
+    let changed = false;
+    if (offset + want > snapshot.cities.length && !snapshot.isComplete) {
+      snapshot = await this.extendSnapshot(snapshot, offset + want);
+      changed = true;
+    }
+
+    const result = snapshot.cities.slice(offset, offset + want);
+    const endIndex = offset + result.length;
+    const hasMore =
+      endIndex < snapshot.cities.length || !snapshot.isComplete;
+
+    if (endIndex > snapshot.served) {
+      snapshot = { ...snapshot, served: endIndex };
+      changed = true;
+    }
+    if (changed) await cacheService.setCitySnapshot(snapshotId, snapshot);
+
+    logger.info("Returning cursor page", {
+      countries,
+      cities: result.length,
+      from: offset,
+      to: endIndex,
+      snapshotSize: snapshot.cities.length,
+    });
+
+    return {
+      cities: result,
+      hasMore,
+      nextCursor:
+        hasMore && result.length > 0
+          ? cursorAfter(
+              countries,
+              view,
+              result[result.length - 1],
+              snapshotId,
+              endIndex
+            )
+          : null,
+      isComplete: snapshot.isComplete,
+      stale: snapshot.stale,
+    };
+  }
+
+  /**
+   * Look up one validated city. Names match through the same folded
+   * `cityKey` the crawl de-dupes on, so "Lodz", "lodz" and "Łódź" are
+   * equivalent, and aliases find their canonical city. Ranks are always
+   * final; `totalRanked` is only known once the country is fully crawled.
+   */
+  async getCityDetail(
+    country: CityResult["country"],
+    name: string
+  ): Promise<CityDetail> {
+    const key = cityKey(cityOverrides.listedName(country, name), country);
+    const find = (cities: CityResult[]) => {
+      const ranked = rankCities(cities, toRankingView({}), [country]);
+      const index = ranked.findIndex(
+        (c) => cityKey(c.city, c.country) === key
+      );
+      return { ranked, index };
+    };
+
+    // Upstream pages come most polluted first, so a partial ranking already
+    // fixes the rank of a city polluted more than its last entry. Only
+    // other names crawl every remaining page
+    const cached = await cacheService.getCountryCache(country);
+    if (cached && !cached.isComplete) {
+      const { ranked, index } = find(cached.cities);
+      const floor = ranked[ranked.length - 1]?.pollution;
+      if (index >= 0 && ranked[index].pollution > floor) {
+        return {
+          ...ranked[index],
+          rank: index + 1,
+          totalRanked: null,
+          stale: cached.stale ?? false,
+        };
+      }
+    }
+
+    const { cities, stale } = await this.collectCities(country, 0, "strict");
+    const { ranked, index } = find(cities);
+
+    if (index < 0) {
+      throw AppError.notFound(
+        `City "${name}" not found in ${countryRegistry.label(country)}`
+      );
+    }
+
+    return {
+      ...ranked[index],
+      rank: index + 1,
+      totalRanked: ranked.length,
+      stale,
+    };
+  }
+
+  /**
+   * Recorded pollution of one city between `from` and `to` (epoch ms),
+   * oldest first. Names resolve like getCityDetail; a city that never
+   * appeared in a snapshot is a 404.
+   */
+  getCityHistory(
+    country: SupportedCountry,
+    name: string,
+    from: number,
+    to: number
+  ): { city: string; points: HistoryPoint[] } {
+    const listed = cityOverrides.listedName(country, name);
+    const series = pollutionHistory.series(country, listed, from, to);
+    if (!series) {
+      throw AppError.notFound(
+        `No pollution history for "${name}" in ${countryRegistry.label(country)}`
+      );
+    }
+    return series;
+  }
+
+  // Biggest risers and fallers between two recorded snapshots
+  getCountryChanges(
+    country: SupportedCountry,
+    options: { from?: number; to?: number; limit: number }
+  ): {
+    from: string;
+    to: string;
+    compared: number;
+    risers: PollutionChange[];
+    fallers: PollutionChange[];
+  } {
+    const changes = pollutionHistory.changes(country, options);
+    if (!changes) {
+      throw AppError.notFound(
+        `Not enough pollution history for ${countryRegistry.label(country)}: two snapshots are needed`
+      );
+    }
+    return changes;
+  }
+
+  /**
+   * Autocomplete over validated cities. Answers from the country caches;
+   * a country without any cache is warmed with one small crawl, never a
+   * full upstream scan. Hits are ordered by match quality, then pollution.
+   */
+  async searchCities(
+    query: string,
+    countries: SupportedCountry[],
+    limit = 10
+  ): Promise<{ hits: CitySearchHit[]; stale: boolean }> {
+    const want = Math.max(1, Math.min(limit, 50));
+    const hits: CitySearchHit[] = [];
+    let stale = false;
+
+    for (const country of countries) {
+      const data =
+        (await cacheService.getCountryCache(country)) ??
+        (await this.collectCities(country, SEARCH_LIMITS.WARM_CITIES));
+      const cities = data.cities;
+      stale = stale || (data.stale ?? false);
+
+      const folded = searchKey(query, country);
+      for (const city of cities) {
+        const match = matchCity(folded, searchKey(city.city, country));
+        if (match) hits.push({ ...city, match });
+      }
+    }
+
+    logger.info("City search", { query, countries, matches: hits.length });
+
+    const ordered = hits
+      .sort(
+        (a, b) =>
+          MATCH_QUALITY[a.match.kind] - MATCH_QUALITY[b.match.kind] ||
+          a.match.distance - b.match.distance ||
+          b.pollution - a.pollution
+      )
+      .slice(0, want);
+
+    return { hits: ordered, stale };
+  }
+
+  /**
+   * Validated cities within `radiusKm` of a point. Like search, answers
+   * come from the country caches (a country without any is warmed with one
+   * small crawl). Each country's cities are indexed once per cache entry,
+   * so a query only measures the cities in grid cells near the point.
+   * Cities without coordinates are never returned.
+   */
+  async findNearby(
+    center: Coordinates,
+    radiusKm: number,
+    options: { sort?: NearbySort; limit?: number } = {}
+  ): Promise<{ cities: NearbyCity[]; isComplete: boolean; stale: boolean }> {
+    const want = Math.max(1, Math.min(options.limit ?? 10, 50));
+    const found: NearbyCity[] = [];
+    let isComplete = true;
+    let stale = false;
+
+    // Sequential on purpose: all countries share one upstream rate limit
+    for (const country of countryRegistry.codes) {
+      const cached = await cacheService.getCountryCache(country);
+      const data =
+        cached ??
+        (await this.collectCities(country, SEARCH_LIMITS.WARM_CITIES));
+      isComplete = isComplete && data.isComplete;
+      stale = stale || (data.stale ?? false);
+
+      const version = cached
+        ? `${cached.timestamp}:${cached.cities.length}`
+        : null;
+      for (const { item, distanceKm } of this.geoIndex(
+        country,
+        data.cities,
+        version
+      ).within(center, radiusKm)) {
+        found.push({ ...item, distanceKm });
+      }
+    }
+
+    logger.info("Nearby cities", {
+      ...center,
+      radiusKm,
+      matches: found.length,
+    });
+
+    const byDistance = (a: NearbyCity, b: NearbyCity) =>
+      a.distanceKm - b.distanceKm;
+    const compare =
+      options.sort === "pollution"
+        ? (a: NearbyCity, b: NearbyCity) =>
+            b.pollution - a.pollution || byDistance(a, b)
+        : byDistance;
+
+    return { cities: found.sort(compare).slice(0, want), isComplete, stale };
+  }
+
+  // Cities that did not come from a cache entry are indexed for this call only
+  private geoIndex(
+    country: SupportedCountry,
+    cities: CityResult[],
+    version: string | null
+  ): GeoIndex<CityResult> {
+    const current = this.geoIndexes.get(country);
+    if (version !== null && current?.version === version) return current.index;
+
+    const index = new GeoIndex(
+      cities,
+      (city) => city.coordinates ?? null,
+      NEARBY_LIMITS.GRID_CELL_DEGREES
+    );
+    if (version !== null) this.geoIndexes.set(country, { version, index });
+    return index;
+  }
+
+  /**
+   * Rebuild a country's cache from scratch without disturbing readers: the
+   * current entry keeps serving until the new one is written in one go.
+   * Rebuilds as deep as the current entry (all pages if it was complete).
+   * `beforePage` runs ahead of every upstream page, letting background
+   * callers pace themselves or abort by throwing.
+   */
+  async refreshCountry(
+    country: SupportedCountry,
+    beforePage?: () => Promise<void>
+  ): Promise<{ cities: number; pages: number; isComplete: boolean }> {
+    const current = await cacheService.getCountryCache(country);
+    const strict = current?.isComplete ?? false;
+    const target = Math.max(
+      current?.cities.length ?? 0,
+      WARMER_CONFIG.MIN_CITIES
+    );
+
+    const chosen: CityResult[] = [];
+    const seen = new Set<string>();
+    let lastPage = 0;
+    let totalPages: number | null = null;
+    let isComplete = false;
+    let degraded = false;
+
+    while (strict || chosen.length < target) {
+      if (totalPages && lastPage >= totalPages) {
+        isComplete = true;
+        break;
+      }
+
+      await beforePage?.();
+      const resp = await this.pollu.fetchCountryPage(
+        country,
+        lastPage + 1,
+        50,
+        "background"
+      );
+      lastPage++;
+      totalPages = totalPages ?? resp.meta?.totalPages ?? 1;
+
+      const { cities, stale } = await this.validatePage(
+        country,
+        resp.results ?? [],
+        seen
+      );
+      chosen.push(...cities);
+      degraded = degraded || stale;
+    }
+
+    if (totalPages && lastPage >= totalPages) isComplete = true;
+
+    // Never replace a verified entry with one Wikipedia could not check
+    if (degraded && current && !current.stale) {
+      throw new Error("Wikipedia unavailable, keeping the current entry");
+    }
+
+    await this.saveCountry(country, {
+      cities: chosen,
+      lastPage,
+      totalPages,
+      timestamp: Date.now(),
+      isComplete,
+      stale: degraded,
+    });
 
-    // Check if we have enough cached data for this page
-    if (cacheEntry && cacheEntry.cities.length >= offset + want) {
-      const startIndex = offset;
-      const endIndex = offset + want;
+    logger.info("Country cache refreshed", {
+      country,
+      cities: chosen.length,
+      pages: lastPage,
+      isComplete,
+    });
 
-      console.log(
-        `Cache hit: returning page ${page} (${startIndex}-${endIndex}) from ${cacheEntry.cities.length} cached cities`
+    return { cities: chosen.length, pages: lastPage, isComplete };
+  }
+
+  /**
+   * Grow the snapshot until it holds `needed` entries. Newly discovered
+   * cities are ranked together with the entries not served yet; the served
+   * head keeps its order.
+   */
+  private async extendSnapshot(
+    snapshot: CitySnapshot,
+    needed: number
+  ): Promise<CitySnapshot> {
+    const { countries, view, resumeAfter } = snapshot;
+    const head = snapshot.cities.slice(0, snapshot.served);
+    let tail = snapshot.cities.slice(snapshot.served);
+    const seen = new Set(
+      snapshot.cities.map((c) => cityKey(c.city, c.country))
+    );
+    let isComplete = snapshot.isComplete;
+    let stale = snapshot.stale;
+
+    while (head.length + tail.length < needed && !isComplete) {
+      const data = await this.growCountries(
+        countries,
+        needed - head.length - tail.length
+      );
+      isComplete = data.isComplete;
+      stale = stale || data.stale;
+
+      const fresh = data.cities.filter(
+        (c) =>
+          inView(c, view) &&
+          !seen.has(cityKey(c.city, c.country)) &&
+          ranksAfter(c, resumeAfter, view, countries)
+      );
+      for (const c of fresh) seen.add(cityKey(c.city, c.country));
+      tail = rankCities([...tail, ...fresh], view, countries);
+
+      // Upstream unreachable: serve what we have instead of spinning
+      if (data.stale && !fresh.length) break;
+    }
+
+    return { ...snapshot, cities: [...head, ...tail], isComplete, stale };
+  }
+
+  private async saveSnapshot(snapshot: CitySnapshot): Promise<string> {
+    const id = randomUUID();
+    await cacheService.setCitySnapshot(id, snapshot);
+    return id;
+  }
+
+  /**
+   * Snapshot behind a page-mode cursor. The id is derived from the ranking,
+   * so page requests over the same cache generation share one entry
+   * instead of minting one per request (which would evict the snapshots
+   * live cursors depend on, or pile up keys in Redis).
+   */
+  private async shareSnapshot(snapshot: CitySnapshot): Promise<string> {
+    const id = createHash("sha1")
+      .update(
+        JSON.stringify([
+          snapshot.countries,
+          snapshot.view,
+          snapshot.isComplete,
+          snapshot.stale,
+          snapshot.cities.map((c) => [cityKey(c.city, c.country), c.pollution]),
+        ])
+      )
+      .digest("base64url");
+
+    const existing = await cacheService.getCitySnapshot(id);
+    if (!existing) {
+      await cacheService.setCitySnapshot(id, snapshot);
+    } else if (existing.served < snapshot.served) {
+      await cacheService.setCitySnapshot(id, {
+        ...existing,
+        served: snapshot.served,
+      });
+    }
+    return id;
+  }
+
+  /**
+   * Like collectCountries, but counts only cities inside the view's
+   * pollution range and keeps crawling until `neededCities` of them exist
+   * (or every country is complete). Upstream pages come most polluted
+   * first, so a partial crawl only holds the head of `pollution_desc`;
+   * every other sort needs the complete country.
+   */
+  private async collectMatching(
+    countries: SupportedCountry[],
+    neededCities: number,
+    view: RankingView,
+    consistency: Consistency = "fast"
+  ): Promise<Collected> {
+    let data = await this.collectCountries(
+      countries,
+      neededCities,
+      view.sort === "pollution_desc" ? consistency : "strict"
+    );
+    let matching = data.cities.filter((c) => inView(c, view));
+
+    while (matching.length < neededCities && !data.isComplete) {
+      logger.info("Filtered page short, pulling more cities", {
+        countries,
+        missing: neededCities - matching.length,
+      });
+      const before = data.cities.length;
+      data = await this.growCountries(countries, neededCities - matching.length);
+      matching = data.cities.filter((c) => inView(c, view));
+
+      // Upstream unreachable: serve what we have instead of spinning
+      if (data.stale && data.cities.length <= before) break;
+    }
+
+    return {
+      cities: matching,
+      isComplete: data.isComplete,
+      stale: data.stale,
+    };
+  }
+
+  // Ask every country for `extra` more validated cities than it has cached
+  private async growCountries(
+    countries: SupportedCountry[],
+    extra: number
+  ): Promise<Collected> {
+    const cities: CityResult[] = [];
+    let isComplete = true;
+    let stale = false;
+
+    // Sequential on purpose: all countries share one upstream rate limit
+    for (const country of countries) {
+      const cached = await cacheService.getCountryCache(country);
+      const data = await this.collectCities(
+        country,
+        (cached?.cities.length ?? 0) + extra
       );
+      cities.push(...data.cities);
+      isComplete = isComplete && data.isComplete;
+      stale = stale || data.stale;
+    }
+
+    return { cities, isComplete, stale };
+  }
+
+  /**
+   * Collect several countries one after another (they share the upstream
+   * rate limit enforced by PolluApiClient) and concatenate their cities.
+   */
+  private async collectCountries(
+    countries: SupportedCountry[],
+    neededCities: number,
+    consistency: Consistency = "fast"
+  ): Promise<Collected> {
+    const cities: CityResult[] = [];
+    let isComplete = true;
+    let stale = false;
+
+    for (const country of countries) {
+      const data = await this.collectCities(country, neededCities, consistency);
+      cities.push(...data.cities);
+      isComplete = isComplete && data.isComplete;
+      stale = stale || data.stale;
+    }
+
+    return { cities, isComplete, stale };
+  }
+
+  /**
+   * Make sure the country cache holds at least `neededCities` validated
+   * cities (or everything upstream has), pulling further pages if needed.
+   * In strict mode every upstream page is pulled, whatever `neededCities`.
+   */
+  private async collectCities(
+    country: CityResult["country"],
+    neededCities: number,
+    consistency: Consistency = "fast"
+  ): Promise<Collected> {
+    const depth = consistency === "strict" ? "all" : String(neededCities);
+    return this.crawlFlights.do(`${country}:${depth}`, () =>
+      this.crawlCities(country, neededCities, consistency)
+    );
+  }
+
+  private async crawlCities(
+    country: CityResult["country"],
+    neededCities: number,
+    consistency: Consistency
+  ): Promise<Collected> {
+    const strict = consistency === "strict";
+
+    // Get from cache service
+    const cacheEntry = await cacheService.getCountryCache(country);
+
+    // Check if we have enough cached data
+    if (
+      cacheEntry &&
+      (cacheEntry.isComplete ||
+        (!strict && cacheEntry.cities.length >= neededCities))
+    ) {
+      logger.debug("Country cache hit", {
+        country,
+        cached: cacheEntry.cities.length,
+        needed: neededCities,
+      });
 
       return {
-        cities: cacheEntry.cities
-          .sort((a, b) => b.pollution - a.pollution)
-          .slice(startIndex, endIndex),
-        hasMore: endIndex < cacheEntry.cities.length,
+        cities: cacheEntry.cities,
+        isComplete: cacheEntry.isComplete,
+        stale: cacheEntry.stale ?? false,
       };
     }
 
     // Calculate how many cities we need to fetch
-    const neededCities = offset + want;
     const alreadyHave = cacheEntry?.cities.length || 0;
     const needMore = Math.max(0, neededCities - alreadyHave);
 
-    if (alreadyHave > 0) {
-      console.log(
-        `Partial cache hit: have ${alreadyHave}, need ${needMore} more cities for page ${page}`
-      );
+    if (strict) {
+      logger.info("Strict ranking: crawling all remaining pages", {
+        country,
+        cached: alreadyHave,
+      });
+    } else if (alreadyHave > 0) {
+      logger.info("Partial country cache hit", {
+        country,
+        cached: alreadyHave,
+        missing: needMore,
+      });
     } else {
-      console.log(
-        `Cache miss: fetching fresh data for ${country} cities (page ${page}, ${want} requested)`
-      );
+      logger.info("Country cache miss", { country, needed: neededCities });
     }
 
     const chosen: CityResult[] = cacheEntry ? [...cacheEntry.cities] : [];
@@ -72,67 +946,41 @@ export class CityService {
 
     let currentPage = cacheEntry ? cacheEntry.lastPage + 1 : 1;
     let totalPages: number | null = cacheEntry?.totalPages || null;
+    let isComplete = cacheEntry?.isComplete ?? false;
+    let degraded = cacheEntry?.stale ?? false;
 
     // Keep pulling until we have enough for the requested page
-    while (chosen.length < neededCities) {
+    // (strict mode only stops at the last upstream page)
+    while (strict || chosen.length < neededCities) {
       if (totalPages && currentPage > totalPages) {
-        console.log(`Reached end of pages (${totalPages}) for ${country}`);
+        logger.info("Reached end of pages", { country, totalPages });
+        isComplete = true;
         break;
       }
 
-      const resp = await this.pollu.fetchCountryPage(
-        country,
-        currentPage,
-        Math.max(1, 50) // Always fetch max to build better cache
-      );
+      // Fails fast with CircuitOpenError (unless the page is cached) while
+      // the pollution API circuit is open
+      let resp;
+      try {
+        resp = await this.pollu.fetchCountryPage(
+          country,
+          currentPage,
+          Math.max(1, 50) // Always fetch max to build better cache
+        );
+      } catch (error) {
+        return this.staleFallback(country, chosen, error);
+      }
 
       totalPages = totalPages ?? resp.meta?.totalPages ?? 1;
 
-      // 1) Sanitize + de-dupe candidates from this page
-      const batch: {
-        city: string;
-        pollution: number;
-        wikiTitle: string;
-        key: string;
-      }[] = [];
-
-      for (const row of resp.results ?? []) {
-        const pollution = parsePollution(row?.pollution);
-        if (pollution === null) continue;
-
-        const verdict = classify(
-          {
-            name: String(row?.name ?? ""),
-            pollution,
-          },
-          country
-        );
-        if (verdict.verdict !== "keep" && verdict.verdict !== "salvage")
-          continue;
-
-        const city = verdict.city;
-        const key = cityKey(city, country);
-        if (seen.has(key)) continue; // drop dupes
-        seen.add(key);
-
-        let wikiTitle = city;
-
-        // Format wiki title for 2-word cities
-        if (wikiTitle.split(" ").length === 2) {
-          const cap = (w: string) =>
-            w ? w.charAt(0).toUpperCase() + w.slice(1).toLowerCase() : w;
-          const parts = wikiTitle.split(/\s+/);
-          if (parts.length === 2) {
-            wikiTitle = `${cap(parts[0])}_${cap(parts[1])}`;
-          } else {
-            wikiTitle = parts.map(cap).join(" ");
-          }
-        }
+      const {
+        candidates,
+        cities: newCities,
+        stale,
+      } = await this.validatePage(country, resp.results ?? [], seen);
+      degraded = degraded || stale;
 
-        batch.push({ city, pollution, wikiTitle, key });
-      }
-
-      if (batch.length === 0) {
+      if (candidates === 0) {
         if (currentPage >= (totalPages ?? 1)) {
           // Mark as complete - merge with existing cache
           const updatedCacheData = {
@@ -141,66 +989,376 @@ export class CityService {
             totalPages,
             timestamp: Date.now(),
             isComplete: true,
+            stale: degraded,
           };
-          cacheService.setCountryCache(country, updatedCacheData);
-          console.log(
-            `No more cities found. Marking ${country} as complete with ${chosen.length} cities`
-          );
+          await this.saveCountry(country, updatedCacheData);
+          isComplete = true;
+          logger.info("No more cities found, country complete", {
+            country,
+            cities: chosen.length,
+          });
           break;
         }
         currentPage++;
         continue;
       }
 
-      // 2) Batch Wikipedia summaries for this batch
-      const titles = batch.map((b) => b.wikiTitle);
-      const descMap = await this.wiki.getSummaries(titles, country);
-
-      // 3) Add cities with descriptions to our collection
-      const newCities: CityResult[] = [];
-      for (const { city, pollution, wikiTitle } of batch) {
-        const description = (descMap.get(wikiTitle) ?? "").trim();
-        if (description) {
-          newCities.push({ country, city, pollution, description });
-        }
-      }
-
       chosen.push(...newCities);
 
       // Update cache with new cities from this page
-      const isComplete = currentPage >= (totalPages ?? 1);
+      isComplete = currentPage >= (totalPages ?? 1);
       const updatedCacheData = {
         cities: chosen, // All cities accumulated so far
         lastPage: currentPage,
         totalPages,
         timestamp: Date.now(),
         isComplete,
+        stale: degraded,
       };
-      cacheService.setCountryCache(country, updatedCacheData);
+      await this.saveCountry(country, updatedCacheData);
 
       if (currentPage >= (totalPages ?? 1)) break;
       currentPage++;
     }
 
-    // Return paginated results
-    const startIndex = offset;
-    const endIndex = Math.min(offset + want, chosen.length);
+    return { cities: chosen, isComplete, stale: degraded };
+  }
+
+  // Entries with unverified cities expire early so they get re-checked.
+  // A complete, fully verified entry is also kept as a history snapshot
+  private async saveCountry(
+    country: SupportedCountry,
+    data: CountryCacheData
+  ): Promise<void> {
+    await cacheService.setCountryCache(
+      country,
+      data,
+      data.stale ? CACHE_CONFIG.DEGRADED_TTL : CACHE_CONFIG.COUNTRY_TTL
+    );
+    if (data.isComplete && !data.stale) {
+      await pollutionHistory.record(country, data.cities, data.timestamp);
+    }
+  }
+
+  /**
+   * The pollution API failed (or its circuit is open) mid-crawl: serve the
+   * cities gathered so far, else the expired-but-retained country entry.
+   * Only when neither exists does the upstream error reach the client.
+   */
+  private async staleFallback(
+    country: SupportedCountry,
+    chosen: CityResult[],
+    error: unknown
+  ): Promise<Collected> {
+    if (chosen.length) {
+      logger.warn("Pollution API unavailable, serving cached cities", {
+        country,
+        cities: chosen.length,
+        error,
+      });
+      return { cities: chosen, isComplete: false, stale: true };
+    }
+
+    const expired = await cacheService.getStaleCountryCache(country);
+    if (expired) {
+      logger.warn("Pollution API unavailable, serving expired cache", {
+        country,
+        cities: expired.cities.length,
+        error,
+      });
+      return {
+        cities: expired.cities,
+        isComplete: expired.isComplete,
+        stale: true,
+      };
+    }
+
+    throw error;
+  }
+
+  /**
+   * Turn one upstream page into validated cities: sanitize, classify,
+   * de-dupe against `seen` (updated in place), then keep only names that
+   * Wikipedia confirms as cities. `candidates` counts rows that survived
+   * classification and de-duping.
+   */
+  private async validatePage(
+    country: SupportedCountry,
+    rows: { name: unknown; pollution: unknown }[],
+    seen: Set<string>
+  ): Promise<{ candidates: number; cities: CityResult[]; stale: boolean }> {
+    const rules = classificationRules.forCountry(country);
+    const overrides = cityOverrides.forCountry(country);
+
+    // 1) Sanitize + de-dupe candidates from this page
+    const batch: {
+      city: string;
+      pollution: number;
+      wikiTitle: string;
+      key: string;
+      classification: CityResult["classification"];
+    }[] = [];
+    const titleOverrides = new Map<string, CityOverride>();
 
-    const result = chosen
-      .sort((a, b) => b.pollution - a.pollution)
-      .slice(startIndex, endIndex);
+    for (const row of rows) {
+      const pollution = parsePollution(row?.pollution);
+      if (pollution === null) continue;
 
-    console.log(
-      `Returning page ${page}: ${result.length} cities (${startIndex}-${endIndex} of ${chosen.length} total)`
+      const verdict = classify(
+        {
+          name: String(row?.name ?? ""),
+          pollution,
+        },
+        country,
+        rules,
+        overrides
+      );
+      classifyVerdicts.inc({ country, verdict: verdict.verdict });
+      if (verdict.verdict !== "keep" && verdict.verdict !== "salvage")
+        continue;
+
+      const city = verdict.city;
+      const key = cityKey(city, country);
+      if (seen.has(key)) continue; // drop dupes
+      seen.add(key);
+
+      const wikiTitle = toWikiTitle(city);
+      if (verdict.override) titleOverrides.set(wikiTitle, verdict.override);
+
+      batch.push({
+        city,
+        pollution,
+        wikiTitle,
+        key,
+        classification: {
+          verdict: verdict.verdict,
+          reason: verdict.reason,
+          confidence: verdict.confidence,
+        },
+      });
+    }
+
+    if (batch.length === 0) return { candidates: 0, cities: [], stale: false };
+
+    // 2) Batch Wikipedia summaries for this batch
+    const titles = batch.map((b) => b.wikiTitle);
+    const {
+      descriptions: descMap,
+      facts,
+      coordinates,
+      stale,
+    } = await this.wiki.getSummaries(titles, country, "en", titleOverrides);
+
+    // 3) Add cities with descriptions to our collection. Titles Wikipedia
+    // could not answer are kept without a description rather than dropped
+    const newCities: CityResult[] = [];
+    for (const { city, pollution, wikiTitle, classification } of batch) {
+      if (!descMap.has(wikiTitle)) {
+        newCities.push({
+          country,
+          city,
+          pollution,
+          description: null,
+          population: null,
+          officialName: null,
+          coordinates: null,
+          classification,
+        });
+        continue;
+      }
+
+      const description = (descMap.get(wikiTitle) ?? "").trim();
+      if (description) {
+        newCities.push({
+          country,
+          city,
+          pollution,
+          description,
+          population: facts.get(wikiTitle)?.population ?? null,
+          officialName: facts.get(wikiTitle)?.officialName ?? null,
+          coordinates: coordinates.get(wikiTitle) ?? null,
+          classification,
+        });
+      }
+    }
+
+    return { candidates: batch.length, cities: newCities, stale };
+  }
+
+  /**
+   * Replay the crawl's filtering over the first upstream pages and report
+   * what happened to every raw row: pollution parsing, `classify`, `cityKey`
+   * de-duplication and Wikipedia validation. Wikipedia is queried fresh
+   * (the cache is neither read nor written) so each attempt's validation
+   * reason is known. With `name`, only rows whose raw or normalized name
+   * contains it are returned, but de-duplication still sees every row.
+   */
+  async explainCities(
+    country: SupportedCountry,
+    options: { name?: string; pages?: number } = {}
+  ): Promise<CityExplanation> {
+    const maxPages = Math.min(
+      options.pages ?? (options.name ? EXPLAIN_LIMITS.MAX_PAGES : 1),
+      EXPLAIN_LIMITS.MAX_PAGES
     );
+    const query = options.name ? searchKey(options.name, country) : null;
+    const matches = (...names: string[]) =>
+      !query || names.some((n) => searchKey(n, country).includes(query));
 
-    return {
-      cities: result,
-      hasMore: endIndex < chosen.length,
-    };
+    const cached = await cacheService.getCountryCache(country);
+    const listed = new Set(
+      (cached?.cities ?? []).map((c) => cityKey(c.city, c.country))
+    );
+
+    const rules = classificationRules.forCountry(country);
+    const overrides = cityOverrides.forCountry(country);
+    const firstSeen = new Map<string, string>(); // cityKey -> raw name
+    const titleOverrides = new Map<string, CityOverride>();
+    const rows: ExplainRow[] = [];
+    let page = 0;
+    let totalPages = 1;
+
+    while (page < maxPages && page < totalPages) {
+      page++;
+      const resp = await this.pollu.fetchCountryPage(country, page);
+      totalPages = resp.meta?.totalPages ?? 1;
+
+      const pageRows: ExplainRow[] = [];
+      (resp.results ?? []).forEach((item: any, index: number) => {
+        const name = String(item?.name ?? "");
+        const row: ExplainRow = {
+          page,
+          row: index + 1,
+          name: item?.name,
+          pollution: item?.pollution,
+          baseName: null,
+          englishName: null,
+          verdict: null,
+          reason: null,
+          confidence: null,
+          duplicateOf: null,
+          wikipedia: null,
+          outcome: "invalid-pollution",
+          listed: false,
+        };
+
+        const pollution = parsePollution(item?.pollution);
+        if (pollution !== null) {
+          const verdict = classify(
+            { name, pollution },
+            country,
+            rules,
+            overrides
+          );
+          row.verdict = verdict.verdict;
+          row.reason = verdict.reason;
+          row.confidence = verdict.confidence;
+          row.englishName = verdict.englishCity;
+          row.outcome = "rejected";
+
+          if (verdict.verdict !== "reject") {
+            const key = cityKey(verdict.city, country);
+            row.baseName = verdict.city;
+            row.listed = listed.has(key);
+
+            if (firstSeen.has(key)) {
+              row.outcome = "duplicate";
+              row.duplicateOf = firstSeen.get(key)!;
+            } else {
+              firstSeen.set(key, name);
+              const title = toWikiTitle(verdict.city);
+              if (verdict.override) titleOverrides.set(title, verdict.override);
+              row.wikipedia = {
+                title,
+                attempts: [],
+                description: null,
+                facts: null,
+              };
+            }
+          }
+        }
+
+        if (matches(name, row.baseName ?? "")) pageRows.push(row);
+      });
+
+      // Only rows that reach the Wikipedia step cost a lookup
+      const pending = pageRows.filter((r) => r.wikipedia);
+      const titles = [...new Set(pending.map((r) => r.wikipedia!.title))];
+      const checks = titles.length
+        ? await this.wiki.checkTitles(titles, country, "en", titleOverrides)
+        : new Map();
+
+      for (const row of pending) {
+        const wikipedia = row.wikipedia!;
+        const check = checks.get(wikipedia.title);
+        wikipedia.attempts = check?.attempts ?? [];
+        wikipedia.description = check?.description?.trim() || null;
+        wikipedia.facts = check?.facts ?? null;
+
+        row.outcome = !check?.available
+          ? "unverified"
+          : wikipedia.description
+          ? "included"
+          : "not-a-city";
+      }
+
+      rows.push(...pageRows);
+    }
+
+    const summary: CityExplanation["summary"] = {};
+    for (const row of rows) {
+      summary[row.outcome] = (summary[row.outcome] ?? 0) + 1;
+    }
+
+    logger.info("City filtering explained", {
+      country,
+      name: options.name,
+      pages: page,
+      rows: rows.length,
+    });
+
+    return { pages: page, totalPages, summary, rows };
+  }
+
+  /**
+   * Swap English descriptions for ones from the `lang` Wikipedia edition.
+   * Only the given cities are looked up (one batch per country), and local
+   * articles go through the edition's own city checks. Cities without a
+   * local article that passes keep their English description.
+   */
+  async localizeCities<T extends CityResult>(
+    cities: T[],
+    lang: WikiLang
+  ): Promise<T[]> {
+    if (lang === "en") return cities;
+
+    const local = new Map<SupportedCountry, Map<string, string | null>>();
+    for (const country of new Set(cities.map((c) => c.country))) {
+      if (!classificationRules.forWiki(country, lang)) continue;
+
+      const titles = cities
+        .filter((c) => c.country === country)
+        .map((c) => toWikiTitle(c.city));
+      const { descriptions } = await this.wiki.getSummaries(
+        titles,
+        country,
+        lang
+      );
+      local.set(country, descriptions);
+    }
+
+    return cities.map((city) => {
+      const description = local
+        .get(city.country)
+        ?.get(toWikiTitle(city.city))
+        ?.trim();
+      return description
+        ? { ...city, description, descriptionLang: lang }
+        : city;
+    });
   }
 
-  getCacheStats() {
+  async getCacheStats() {
     return cacheService.getCacheStats();
   }
 }
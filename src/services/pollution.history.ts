@@ -0,0 +1,349 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { env } from "../config/env";
+import { searchKey } from "../utils/citySearch";
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { HISTORY_CONFIG } from "../utils/constants";
+import { logger } from "../utils/logger";
+
+// One completed crawl of a country
+export interface HistorySnapshot {
+  country: SupportedCountry;
+  at: number;
+  cities: Map<string, { city: string; pollution: number }>; // by searchKey
+}
+
+export interface HistoryPoint {
+  at: string;
+  pollution: number;
+}
+
+export interface PollutionChange {
+  name: string;
+  before: number;
+  after: number;
+  change: number;
+}
+
+// One line of the history file
+interface HistoryLine {
+  v: number;
+  country: SupportedCountry;
+  at: number;
+  cities: Array<[string, number]>;
+}
+
+const HISTORY_LINE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toSnapshot(line: HistoryLine): HistorySnapshot {
+  const cities: HistorySnapshot["cities"] = new Map();
+  for (const [city, pollution] of line.cities) {
+    cities.set(searchKey(city, line.country), { city, pollution });
+  }
+  return { country: line.country, at: line.at, cities };
+}
+
+const toLine = (s: HistorySnapshot): HistoryLine => ({
+  v: HISTORY_LINE_VERSION,
+  country: s.country,
+  at: s.at,
+  cities: [...s.cities.values()].map((c) => [c.city, c.pollution]),
+});
+
+const isHistoryLine = (raw: any): raw is HistoryLine =>
+  raw?.v === HISTORY_LINE_VERSION &&
+  countryRegistry.has(raw.country) &&
+  Number.isFinite(raw.at) &&
+  Array.isArray(raw.cities) &&
+  raw.cities.every(
+    (c: unknown) =>
+      Array.isArray(c) &&
+      typeof c[0] === "string" &&
+      Number.isFinite(c[1])
+  );
+
+/**
+ * (city, pollution) values of every completed country crawl, so trends
+ * survive the country cache being overwritten. Snapshots are kept in
+ * memory per country, oldest first, and with HISTORY_FILE appended to that
+ * file as one JSON line each; `load` reads the file back at startup.
+ * Snapshots older than the retention period are pruned on a timer; the
+ * file is then rewritten (write-then-rename). Memory holds at most
+ * `maxSnapshots` per country, newest kept, whatever the retention period.
+ * Writes are applied one at a time.
+ */
+export class PollutionHistory {
+  private snapshots = new Map<SupportedCountry, HistorySnapshot[]>();
+  private queue: Promise<unknown> = Promise.resolve();
+  // The file still holds snapshots trimmed from memory
+  private fileBehind = false;
+
+  constructor(
+    private readonly file: string,
+    private readonly retentionDays: number,
+    private readonly maxSnapshots: number
+  ) {
+    for (const country of countryRegistry.codes) {
+      this.snapshots.set(country, []);
+    }
+  }
+
+  // Never throws: losing a snapshot must not fail the crawl that made it
+  record(
+    country: SupportedCountry,
+    cities: { city: string; pollution: number }[],
+    at = Date.now()
+  ): Promise<void> {
+    const snapshot = toSnapshot({
+      v: HISTORY_LINE_VERSION,
+      country,
+      at,
+      cities: cities.map((c) => [c.city, c.pollution]),
+    });
+
+    return this.enqueue(async () => {
+      if (this.file) {
+        await mkdir(dirname(this.file), { recursive: true });
+        await appendFile(
+          this.file,
+          JSON.stringify(toLine(snapshot)) + "\n",
+          "utf8"
+        );
+      }
+      const list = this.snapshots.get(country)!;
+      list.push(snapshot);
+      list.sort((a, b) => a.at - b.at);
+      // The file keeps the dropped ones until the next pruning
+      this.trim(list);
+      logger.debug("Pollution snapshot recorded", {
+        country,
+        cities: snapshot.cities.size,
+      });
+    }).catch((error) =>
+      logger.error("Pollution snapshot not recorded", { country, error })
+    );
+  }
+
+  // A city's values over time; null if it never appeared in a snapshot
+  series(
+    country: SupportedCountry,
+    name: string,
+    from: number,
+    to: number
+  ): { city: string; points: HistoryPoint[] } | null {
+    const key = searchKey(name, country);
+    let city: string | null = null;
+    const points: HistoryPoint[] = [];
+
+    for (const snapshot of this.snapshots.get(country)!) {
+      const entry = snapshot.cities.get(key);
+      if (!entry) continue;
+      city = entry.city; // latest spelling wins
+      if (snapshot.at >= from && snapshot.at <= to) {
+        points.push({
+          at: new Date(snapshot.at).toISOString(),
+          pollution: entry.pollution,
+        });
+      }
+    }
+
+    return city === null ? null : { city, points };
+  }
+
+  // How much history a country has
+  summary(country: SupportedCountry): {
+    snapshots: number;
+    lastRecordedAt: string | null;
+  } {
+    const list = this.snapshots.get(country)!;
+    const last = list[list.length - 1];
+    return {
+      snapshots: list.length,
+      lastRecordedAt: last ? new Date(last.at).toISOString() : null,
+    };
+  }
+
+  /**
+   * Compare the latest snapshot taken at or before `to` with the latest one
+   * at or before `from` (without `from`, the one just before it). Cities in
+   * only one of them are left out. Null when there are no two snapshots.
+   */
+  changes(
+    country: SupportedCountry,
+    options: { from?: number; to?: number; limit: number }
+  ): {
+    from: string;
+    to: string;
+    compared: number;
+    risers: PollutionChange[];
+    fallers: PollutionChange[];
+  } | null {
+    const list = this.snapshots.get(country)!;
+    const latestAt = (t: number) => {
+      for (let i = list.length - 1; i >= 0; i--) if (list[i].at <= t) return i;
+      return -1;
+    };
+
+    const after = latestAt(options.to ?? Infinity);
+    const before =
+      options.from === undefined
+        ? after - 1
+        : Math.min(latestAt(options.from), after - 1);
+    if (after < 1 || before < 0) return null;
+
+    const changes: PollutionChange[] = [];
+    for (const [key, now] of list[after].cities) {
+      const then = list[before].cities.get(key);
+      if (!then) continue;
+      changes.push({
+        name: now.city,
+        before: then.pollution,
+        after: now.pollution,
+        change: Math.round((now.pollution - then.pollution) * 100) / 100,
+      });
+    }
+
+    return {
+      from: new Date(list[before].at).toISOString(),
+      to: new Date(list[after].at).toISOString(),
+      compared: changes.length,
+      risers: changes
+        .filter((c) => c.change > 0)
+        .sort((a, b) => b.change - a.change)
+        .slice(0, options.limit),
+      fallers: changes
+        .filter((c) => c.change < 0)
+        .sort((a, b) => a.change - b.change)
+        .slice(0, options.limit),
+    };
+  }
+
+  // Drop snapshots past the retention period, also from the file along with
+  // any trimmed from memory; returns how many went
+  prune(now = Date.now()): Promise<number> {
+    const cutoff = now - this.retentionDays * DAY_MS;
+
+    return this.enqueue(async () => {
+      const next = new Map<SupportedCountry, HistorySnapshot[]>();
+      let removed = 0;
+      for (const [country, list] of this.snapshots) {
+        const kept = list.filter((s) => s.at >= cutoff);
+        removed += list.length - kept.length;
+        next.set(country, kept);
+      }
+      if (this.file && (removed || this.fileBehind)) {
+        await this.save(next);
+        this.fileBehind = false;
+      }
+      this.snapshots = next;
+      if (!removed) return 0;
+
+      logger.info("Pollution history pruned", {
+        removed,
+        retentionDays: this.retentionDays,
+      });
+      return removed;
+    });
+  }
+
+  // Prune now and then every `intervalMs`; returns a stop function
+  schedulePruning(intervalMs: number = HISTORY_CONFIG.PRUNE_INTERVAL_MS) {
+    const run = () =>
+      this.prune().catch((error) =>
+        logger.error("Pollution history pruning failed", { error })
+      );
+    run();
+    const timer = setInterval(run, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  // Resolves once every pending write has finished
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  private enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async save(snapshots: Map<SupportedCountry, HistorySnapshot[]>) {
+    const lines = [...snapshots.values()]
+      .flat()
+      .sort((a, b) => a.at - b.at)
+      .map((s) => JSON.stringify(toLine(s)) + "\n");
+
+    const tmp = `${this.file}.tmp`;
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(tmp, lines.join(""), "utf8");
+    await rename(tmp, this.file);
+  }
+
+  /**
+   * Read HISTORY_FILE into memory; call once at startup, before snapshots
+   * are recorded. A missing file is an empty history.
+   */
+  load(): Promise<void> {
+    if (!this.file) return Promise.resolve();
+    return this.enqueue(() => this.read(this.file));
+  }
+
+  private trim(list: HistorySnapshot[]) {
+    if (list.length > this.maxSnapshots) {
+      list.splice(0, list.length - this.maxSnapshots);
+      this.fileBehind = true;
+    }
+  }
+
+  private async read(file: string) {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (error: any) {
+      // Nothing recorded yet
+      if (error?.code === "ENOENT") return;
+      throw error;
+    }
+
+    // An interrupted append can leave a torn last line; skip what does not
+    // parse instead of refusing to start
+    let loaded = 0;
+    let skipped = 0;
+    for (const raw of text.split("\n")) {
+      if (!raw.trim()) continue;
+      let line: unknown;
+      try {
+        line = JSON.parse(raw);
+      } catch {
+        line = null;
+      }
+      if (!isHistoryLine(line)) {
+        skipped++;
+        continue;
+      }
+      this.snapshots.get(line.country)!.push(toSnapshot(line));
+      loaded++;
+    }
+    for (const list of this.snapshots.values()) {
+      list.sort((a, b) => a.at - b.at);
+      this.trim(list);
+    }
+
+    if (skipped) {
+      logger.warn("Unreadable pollution history lines skipped", {
+        file,
+        skipped,
+      });
+    }
+    logger.info("Pollution history loaded", { file, snapshots: loaded });
+  }
+}
+
+export const pollutionHistory = new PollutionHistory(
+  env.historyFile,
+  env.historyRetentionDays,
+  env.historyMaxSnapshots
+);
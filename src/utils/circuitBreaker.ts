@@ -0,0 +1,130 @@
+// circuitBreaker.ts
+// Classic three-state breaker for upstream APIs:
+//  - closed: calls go through; `failureThreshold` consecutive failures open it
+//  - open: calls fail fast with CircuitOpenError for `resetTimeoutMs`
+//  - half-open: up to `halfOpenMaxCalls` trial calls; a success closes the
+//    circuit, a failure opens it again
+
+import { CircuitOpenError } from "../errors/CircuitOpenError";
+import { logger } from "./logger";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  halfOpenMaxCalls: number;
+}
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  openedAt: string | null;
+  retryAt: string | null; // when an open circuit lets a trial call through
+  lastFailure: string | null;
+  lastFailureAt: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private lastFailure: string | null = null;
+  private lastFailureAt = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  // True while calls would be rejected without reaching upstream
+  isOpen(): boolean {
+    this.checkReset();
+    return (
+      this.state === "open" ||
+      (this.state === "half-open" &&
+        this.halfOpenCalls >= this.options.halfOpenMaxCalls)
+    );
+  }
+
+  async exec<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.isOpen()) {
+      throw new CircuitOpenError(this.name, this.retryAt());
+    }
+    if (this.state === "half-open") this.halfOpenCalls++;
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error: any) {
+      this.onFailure(error);
+      throw error;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    this.checkReset();
+    const iso = (ms: number) => (ms ? new Date(ms).toISOString() : null);
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.failures,
+      failureThreshold: this.options.failureThreshold,
+      resetTimeoutMs: this.options.resetTimeoutMs,
+      openedAt: this.state === "closed" ? null : iso(this.openedAt),
+      retryAt: this.state === "open" ? iso(this.retryAt()) : null,
+      lastFailure: this.lastFailure,
+      lastFailureAt: iso(this.lastFailureAt),
+    };
+  }
+
+  private retryAt(): number {
+    return this.openedAt + this.options.resetTimeoutMs;
+  }
+
+  private checkReset() {
+    if (this.state === "open" && Date.now() >= this.retryAt()) {
+      this.state = "half-open";
+      this.halfOpenCalls = 0;
+      logger.info("Circuit half-open, allowing a trial call", {
+        circuit: this.name,
+      });
+    }
+  }
+
+  private onSuccess() {
+    if (this.state !== "closed") {
+      logger.info("Circuit closed", { circuit: this.name });
+    }
+    this.state = "closed";
+    this.failures = 0;
+    this.halfOpenCalls = 0;
+  }
+
+  private onFailure(error: any) {
+    this.failures++;
+    this.lastFailure = error?.message ?? String(error);
+    this.lastFailureAt = Date.now();
+
+    if (
+      this.state === "half-open" ||
+      this.failures >= this.options.failureThreshold
+    ) {
+      if (this.state !== "open") {
+        logger.warn("Circuit open", {
+          circuit: this.name,
+          consecutiveFailures: this.failures,
+          resetTimeoutMs: this.options.resetTimeoutMs,
+          lastFailure: this.lastFailure,
+        });
+      }
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -1,6 +1,11 @@
 // cityFilter.ts (simplified)
 import { asciiFold } from "./asciiFold";
 import { toNameCase } from "./nameCase";
+import type { CountryRules } from "../config/classificationRules";
+import type {
+  CityOverride,
+  OverrideLookup,
+} from "../services/city.overrides";
 
 type RawEntry = { name: string; pollution?: number };
 
@@ -12,6 +17,7 @@ export type FilterResult =
       englishCity: string;
       reason: string;
       confidence: number;
+      override?: CityOverride; // entry the city's Wikipedia lookup follows
     }
   | {
       verdict: "salvage";
@@ -19,6 +25,7 @@ export type FilterResult =
       englishCity: string;
       reason: string;
       confidence: number;
+      override?: CityOverride;
     }
   | {
       verdict: "reject";
@@ -41,78 +48,10 @@ const DIR = [
   "southwest",
 ];
 
-const FACILITY = [
-  "airport",
-  "station",
-  "terminal",
-  "harbor",
-  "harbour",
-  "port",
-  "metro",
-  "railway",
-  "bus",
-  "power plant",
-  "refinery",
-  "mine",
-  "industrial",
-  "zone",
-  "park",
-  "bridge",
-  "dam",
-  "factory",
-  "plant",
-  "works",
-  "depot",
-  "yard",
-  "stadium",
-  "arena",
-  "mall",
-  "market",
-  "plaza",
-  "campus",
-  "university",
-  "college",
-  "hospital",
-  "clinic",
-];
-
-const ADMIN = [
-  "state",
-  "province",
-  "region",
-  "county",
-  "district",
-  "prefecture",
-  "municipality",
-  "commune",
-  "arrondissement",
-  "borough",
-  "canton",
-  "parish",
-  "division",
-  "ward",
-  "zone",
-];
-
-const NON_CITY_LOCALITY = [
-  "village",
-  "hamlet",
-  "suburb",
-  "neighbourhood",
-  "neighborhood",
-  "sector",
-  "block",
-  "phase",
-  "quarter",
-  "colony",
-  "township",
-];
-
-const PLACEHOLDER = ["unknown", "n/a", "null", "test", "sample", "area"];
-
 const escapeRx = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-const hasWord = (s: string, words: string[]) =>
-  words.some((w) => new RegExp(`\\b${escapeRx(w)}\\b`, "iu").test(s));
+// Rule words may be written with or without diacritics
+const hasWord = (s: string, words: RegExp) =>
+  words.test(s) || words.test(asciiFold(s));
 
 const hasDigits = (s: string) => /\d/.test(s);
 const hasBadSymbols = (s: string) => /[@/_#|\\]/.test(s);
@@ -173,22 +112,102 @@ function baseName(
   return { base: name, changed: name !== before, quals };
 }
 
-function looksLikeFacilityOrAdmin(s: string): boolean {
-  const low = s.toLowerCase();
-  if (hasWord(low, PLACEHOLDER) && hasDigits(low)) return true;
-  if (
-    hasWord(low, FACILITY) ||
-    hasWord(low, ADMIN) ||
-    hasWord(low, NON_CITY_LOCALITY)
-  )
-    return true;
-  if (hasDigits(low) && (hasWord(low, FACILITY) || hasWord(low, ADMIN)))
-    return true;
-  return false;
+function looksLikeFacilityOrAdmin(s: string, rules: CountryRules): boolean {
+  if (hasWord(s, rules.placeholder) && hasDigits(s)) return true;
+  return (
+    hasWord(s, rules.facility) ||
+    hasWord(s, rules.admin) ||
+    hasWord(s, rules.locality)
+  );
 }
 
-export function classify(raw: RawEntry, locale = "en"): FilterResult {
+const noOverrides: OverrideLookup = () => undefined;
+const toEnglish = (s: string) => asciiFold(s, { removePunctuation: true });
+
+// deny / aliasOf / allow decide on their own; other entries only rename
+function forcedVerdict(
+  entry: CityOverride,
+  base: string,
+  overrides: OverrideLookup
+): FilterResult | null {
+  if (entry.action === "deny") {
+    return {
+      verdict: "reject",
+      reason: "override:deny",
+      confidence: 1,
+      englishCity: toEnglish(base),
+    };
+  }
+
+  if (entry.aliasOf) {
+    const canonical = overrides(entry.aliasOf);
+    if (canonical?.action === "deny") {
+      return {
+        verdict: "reject",
+        reason: "override:deny",
+        confidence: 1,
+        englishCity: toEnglish(entry.aliasOf),
+      };
+    }
+    const city = canonical?.displayName ?? entry.aliasOf;
+    return {
+      verdict: "salvage",
+      city,
+      englishCity: toEnglish(city),
+      reason: "override:alias",
+      confidence: 1,
+      override: canonical,
+    };
+  }
+
+  if (entry.action === "allow") {
+    const city = entry.displayName ?? base;
+    return {
+      verdict: "keep",
+      city,
+      englishCity: toEnglish(city),
+      reason: "override:allow",
+      confidence: 1,
+      override: entry,
+    };
+  }
+  return null;
+}
+
+// Word lists come from the country's classification rules. Curated
+// overrides (matched on the raw name, then the normalized one) win over
+// every heuristic. Kept cities carry the entry their Wikipedia lookup
+// should follow, which a renamed or aliased city can no longer be matched to
+export function classify(
+  raw: RawEntry,
+  locale: string,
+  rules: CountryRules,
+  overrides: OverrideLookup = noOverrides
+): FilterResult {
   const original = normalize(raw.name || "");
+  const { base } = baseName(original, locale);
+  const entry = original ? overrides(original) ?? overrides(base) : undefined;
+  if (!entry) return classifyHeuristically(original, locale, rules);
+
+  const forced = forcedVerdict(entry, base, overrides);
+  if (forced) return forced;
+
+  const result = classifyHeuristically(original, locale, rules);
+  if (result.verdict === "reject") return result;
+  if (!entry.displayName) return { ...result, override: entry };
+  return {
+    ...result,
+    city: entry.displayName,
+    englishCity: toEnglish(entry.displayName),
+    override: entry,
+  };
+}
+
+function classifyHeuristically(
+  original: string,
+  locale: string,
+  rules: CountryRules
+): FilterResult {
   const englishOriginal = asciiFold(original, { removePunctuation: true });
   if (!original)
     return {
@@ -228,8 +247,8 @@ export function classify(raw: RawEntry, locale = "en"): FilterResult {
   // }
 
   // If original mentions facility/admin → try to salvage; else reject
-  if (looksLikeFacilityOrAdmin(original)) {
-    if (looksLikeFacilityOrAdmin(base) || hasDigits(base)) {
+  if (looksLikeFacilityOrAdmin(original, rules)) {
+    if (looksLikeFacilityOrAdmin(base, rules) || hasDigits(base)) {
       return {
         verdict: "reject",
         reason: "facility/admin",
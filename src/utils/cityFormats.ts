@@ -0,0 +1,75 @@
+// cityFormats.ts
+// Serializers for the alternative city list representations.
+
+export const CITY_FORMATS = {
+  json: "application/json",
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  geojson: "application/geo+json",
+} as const;
+
+export type CityFormat = keyof typeof CITY_FORMATS;
+
+// Formats without an envelope carry pagination metadata in headers instead
+export const ENVELOPE_FORMATS: CityFormat[] = ["json", "geojson"];
+
+export interface CityRow {
+  name: string;
+  country: string;
+  pollution: number;
+  description: string | null;
+  descriptionLang: string | null; // Wikipedia edition of the description
+  population: number | null; // from Wikidata
+  officialName: string | null; // from Wikidata, in the local language
+  lat: number | null;
+  lon: number | null;
+}
+
+const CSV_COLUMNS: (keyof CityRow)[] = [
+  "name",
+  "country",
+  "pollution",
+  "description",
+  "descriptionLang",
+  "population",
+  "officialName",
+  "lat",
+  "lon",
+];
+
+// RFC 4180: quote fields with separators, quotes, line breaks or edge spaces
+function csvField(value: unknown): string {
+  const s = value == null ? "" : String(value);
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: CityRow[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((col) => csvField(row[col])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function toNdjson(rows: CityRow[]): string {
+  return rows.map((row) => JSON.stringify(row) + "\n").join("");
+}
+
+// Cities without coordinates are unlocated features (geometry: null)
+export function toGeoJson(
+  rows: CityRow[],
+  meta: Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    type: "FeatureCollection",
+    ...meta,
+    features: rows.map((row) => ({
+      type: "Feature",
+      geometry:
+        row.lat === null || row.lon === null
+          ? null
+          : { type: "Point", coordinates: [row.lon, row.lat] },
+      properties: row,
+    })),
+  };
+}
@@ -0,0 +1,79 @@
+// citySearch.ts
+// Diacritic-insensitive matching for the city autocomplete.
+// "Lodz", "lodz" and "Łódź" all fold to "lodz": names go through the
+// locale casing rules of toNameCase first, then asciiFold.
+
+import { asciiFold } from "./asciiFold";
+import { toNameCase } from "./nameCase";
+
+// Lower is better; used as the primary sort key
+export const MATCH_QUALITY = {
+  exact: 0,
+  prefix: 1,
+  "word-prefix": 2,
+  substring: 3,
+  fuzzy: 4,
+} as const;
+
+export type MatchKind = keyof typeof MATCH_QUALITY;
+
+export interface CityMatch {
+  kind: MatchKind;
+  distance: number; // edit distance, 0 unless fuzzy
+}
+
+export function searchKey(input: string, locale = "en"): string {
+  return asciiFold(toNameCase(input, locale), {
+    removePunctuation: true,
+    toLower: true,
+  });
+}
+
+// Typos allowed for a query of this length: none for very short input
+const maxEdits = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+// Optimal string alignment distance (Levenshtein + adjacent transpositions)
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Match an already folded query (see searchKey) against a folded city name.
+ * Fuzzy matching compares the query with the name's prefix of the same
+ * length, so partially typed names with a typo still match.
+ */
+export function matchCity(query: string, name: string): CityMatch | null {
+  if (!query || !name) return null;
+
+  if (name === query) return { kind: "exact", distance: 0 };
+  if (name.startsWith(query)) return { kind: "prefix", distance: 0 };
+  if (name.split(/[\s-]+/).some((w) => w.startsWith(query)))
+    return { kind: "word-prefix", distance: 0 };
+  if (name.includes(query)) return { kind: "substring", distance: 0 };
+
+  const allowed = maxEdits(query.length);
+  if (allowed === 0) return null;
+
+  const distance = Math.min(
+    editDistance(query, name.slice(0, query.length)),
+    editDistance(query, name)
+  );
+  return distance <= allowed ? { kind: "fuzzy", distance } : null;
+}
@@ -0,0 +1,27 @@
+// closeServer.ts
+// Stop accepting connections and wait for in-flight requests to finish.
+// Requests still running after `timeoutMs` have their sockets destroyed so
+// shutdown can go on; resolves true when the server drained on its own.
+
+import type { Server } from "http";
+
+export function closeServer(
+  server: Server,
+  timeoutMs: number
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (!server.listening) return resolve(true);
+
+    const timer = setTimeout(() => {
+      server.closeAllConnections();
+      resolve(false);
+    }, timeoutMs);
+
+    server.close(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+    // Keep-alive sockets without a request in flight would hold close open
+    server.closeIdleConnections();
+  });
+}
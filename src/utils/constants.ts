@@ -1,9 +1,5 @@
 // Application Constants
 
-// Supported countries for pollution data
-export const SUPPORTED_COUNTRIES = ["PL", "DE", "ES", "FR"] as const;
-export type SupportedCountry = (typeof SUPPORTED_COUNTRIES)[number];
-
 // API Limits
 export const API_LIMITS = {
   MIN_CITY_LIMIT: 1,
@@ -11,16 +7,78 @@ export const API_LIMITS = {
   DEFAULT_CITY_LIMIT: 10,
 } as const;
 
+// City search / autocomplete
+export const SEARCH_LIMITS = {
+  MIN_QUERY_LENGTH: 1,
+  MAX_QUERY_LENGTH: 64,
+  // Cities pulled for a country with no cache yet; later keystrokes are
+  // answered from the cache without touching upstream
+  WARM_CITIES: 50,
+} as const;
+
+// Filtering explanation (GET /cities/explain)
+export const EXPLAIN_LIMITS = {
+  // Upstream pages replayed per request; also the default for name lookups
+  MAX_PAGES: 10,
+} as const;
+
+// Radius search (GET /cities/nearby)
+export const NEARBY_LIMITS = {
+  DEFAULT_RADIUS_KM: 50,
+  MAX_RADIUS_KM: 500,
+  GRID_CELL_DEGREES: 0.5, // spatial index cell, about 55 km north-south
+} as const;
+
+// Nearby orders: nearest first, or most polluted first
+export const NEARBY_SORTS = ["distance", "pollution"] as const;
+export type NearbySort = (typeof NEARBY_SORTS)[number];
+
+// Listing sort orders; "name" uses each country's collation
+export const CITY_SORTS = ["pollution_desc", "pollution_asc", "name"] as const;
+export type CitySort = (typeof CITY_SORTS)[number];
+
+// Log levels, lowest first; LOG_LEVEL drops everything below it
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Ranking consistency: "fast" stops crawling once the requested page is
+// filled, "strict" ranks over every upstream page before answering
+export const CONSISTENCY_MODES = ["fast", "strict"] as const;
+export type Consistency = (typeof CONSISTENCY_MODES)[number];
+
+// City overrides: force a name into (allow) or out of (deny) the rankings
+export const OVERRIDE_ACTIONS = ["allow", "deny"] as const;
+export type OverrideAction = (typeof OVERRIDE_ACTIONS)[number];
+
 // Cache Configuration
 export const CACHE_CONFIG = {
   POLLUTION_TTL: 5 * 60 * 1000, // 5 minutes
   WIKIPEDIA_TTL: 24 * 60 * 60 * 1000, // 24 hours
   COUNTRY_TTL: 2 * 60 * 60 * 1000, // 2 hours
+  SNAPSHOT_TTL: 2 * 60 * 60 * 1000, // 2 hours (cursor pagination)
+  // Country entries built while Wikipedia was unreachable, and summaries
+  // Wikidata could not cross-check
+  DEGRADED_TTL: 5 * 60 * 1000, // 5 minutes
+  // How long expired country/Wikipedia entries stay available as stale
+  // fallback while a circuit breaker is open
+  STALE_RETENTION: 24 * 60 * 60 * 1000, // 24 hours
 
   // LRU Cache Sizes
   POLLUTION_CACHE_SIZE: 500,
   WIKIPEDIA_CACHE_SIZE: 1000,
   COUNTRY_CACHE_SIZE: 50,
+  SNAPSHOT_CACHE_SIZE: 200,
+} as const;
+
+// Pollution history (snapshots of completed crawls)
+export const HISTORY_CONFIG = {
+  FILE: "data/pollution-history.ndjson", // data/ is git-ignored
+  RETENTION_DAYS: 90,
+  // Per country, held in memory; 90 days of crawls every two hours
+  MAX_SNAPSHOTS: 90 * 12,
+  PRUNE_INTERVAL_MS: 6 * 60 * 60 * 1000, // 6 hours
+  DEFAULT_CHANGES: 10, // risers and fallers each
+  MAX_CHANGES: 50,
 } as const;
 
 // Rate Limiting
@@ -29,19 +87,62 @@ export const RATE_LIMITS = {
     MAX_REQUESTS: 5,
     WINDOW_MS: 10000, // 10 seconds
     MAX_RETRIES: 3,
+    BACKGROUND_RESERVE: 2, // slots per window background work leaves to users
   },
   WIKIPEDIA_API: {
+    MAX_REQUESTS: 10, // shared by every edition
+    WINDOW_MS: 1000, // 1 second
     MAX_CONCURRENCY: 2, // Wikipedia API limit
     MAX_TITLES: 20,
   },
+  WIKIDATA_API: {
+    MAX_REQUESTS: 5,
+    WINDOW_MS: 1000, // 1 second
+    MAX_IDS: 50, // wbgetentities limit per request
+  },
+} as const;
+
+// Circuit breaker defaults (overridable per API through env)
+export const CIRCUIT_BREAKER = {
+  FAILURE_THRESHOLD: 5, // consecutive failures before the circuit opens
+  RESET_TIMEOUT_MS: 30 * 1000, // open -> half-open after this long
+  HALF_OPEN_MAX_CALLS: 1, // trial calls let through while half-open
+} as const;
+
+// Default per-API-key quota (overridable per key)
+export const API_KEY_QUOTA = {
+  LIMIT: 60, // requests per window
+  WINDOW_MS: 60 * 1000, // 1 minute
+} as const;
+
+// Background refresh-ahead warmer
+export const WARMER_CONFIG = {
+  TICK_MS: 60 * 1000, // how often the warmer looks for stale countries
+  INITIAL_DELAY_MS: 5 * 1000,
+  REFRESH_AFTER: 0.75, // refresh once an entry is 75% through COUNTRY_TTL
+  MIN_CITIES: 50, // depth rebuilt for countries without a deeper cache
+  MIN_PAGE_GAP_MS: 4000, // at most ~2.5 warmer requests per 10s window
+} as const;
+
+// Graceful shutdown
+export const SHUTDOWN_CONFIG = {
+  // In-flight requests get this long to finish before their sockets are
+  // closed and the cache snapshot is written anyway
+  DRAIN_TIMEOUT_MS: 10 * 1000,
 } as const;
 
 // External API URLs
 export const EXTERNAL_APIS = {
   POLLUTION_BASE_URL: "https://be-recruitment-task.onrender.com",
   WIKIPEDIA_BASE_URL: "https://en.wikipedia.org/w/api.php",
+  WIKIDATA_BASE_URL: "https://www.wikidata.org/w/api.php",
 } as const;
 
+// A Wikipedia edition's language code ("en", "pl", ...). English is the
+// default, validates every crawl and is the fallback for missing local
+// articles; the others come from the country registry's locales
+export type WikiLang = string;
+
 // City Name Validation
 export const CITY_VALIDATION = {
   MIN_LENGTH: 2,
@@ -59,10 +160,3 @@ export const CITY_VALIDATION = {
   ],
 } as const;
 
-// Country Labels for Wikipedia disambiguation
-export const COUNTRY_LABELS: Record<SupportedCountry, string> = {
-  PL: "Poland",
-  DE: "Germany",
-  ES: "Spain",
-  FR: "France",
-} as const;
@@ -0,0 +1,102 @@
+// cursor.ts
+// Opaque pagination cursors: base64url-encoded JSON that points into a
+// ranking snapshot and remembers the last city handed out, so a client can
+// resume even after the snapshot itself has expired.
+
+import { countryRegistry, SupportedCountry } from "../config/countryRegistry";
+import { CITY_SORTS, CitySort } from "./constants";
+
+const CURSOR_VERSION = 3;
+
+// Filter and order applied to a listing
+export interface RankingView {
+  sort: CitySort;
+  minPollution: number | null;
+  maxPollution: number | null;
+}
+
+export interface CityCursor {
+  countries: SupportedCountry[];
+  view: RankingView; // filter and order the snapshot was built with
+  snapshotId: string;
+  offset: number; // position of the next city inside the snapshot
+  pollution: number; // last city returned (keyset fallback)
+  key: string;
+  name: string;
+}
+
+const isBound = (v: unknown) =>
+  v === null || (typeof v === "number" && Number.isFinite(v));
+
+// Whether a cursor may continue a request for these countries and view
+export function cursorMatches(
+  cursor: CityCursor,
+  countries: SupportedCountry[],
+  view: RankingView
+): boolean {
+  return (
+    cursor.countries.join(",") === countries.join(",") &&
+    cursor.view.sort === view.sort &&
+    cursor.view.minPollution === view.minPollution &&
+    cursor.view.maxPollution === view.maxPollution
+  );
+}
+
+export function encodeCursor(cursor: CityCursor): string {
+  const payload = {
+    v: CURSOR_VERSION,
+    c: cursor.countries,
+    f: [cursor.view.sort, cursor.view.minPollution, cursor.view.maxPollution],
+    s: cursor.snapshotId,
+    o: cursor.offset,
+    p: cursor.pollution,
+    k: cursor.key,
+    n: cursor.name,
+  };
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+// Returns null for anything that is not a cursor we issued
+export function decodeCursor(raw: string): CityCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!payload || payload.v !== CURSOR_VERSION) return null;
+    if (
+      !Array.isArray(payload.c) ||
+      payload.c.length === 0 ||
+      !payload.c.every(
+        (c: unknown) => typeof c === "string" && countryRegistry.has(c)
+      )
+    )
+      return null;
+    if (
+      !Array.isArray(payload.f) ||
+      !CITY_SORTS.includes(payload.f[0]) ||
+      !isBound(payload.f[1]) ||
+      !isBound(payload.f[2])
+    )
+      return null;
+    if (typeof payload.s !== "string" || !payload.s) return null;
+    if (!Number.isInteger(payload.o) || payload.o < 0) return null;
+    if (typeof payload.p !== "number" || !Number.isFinite(payload.p))
+      return null;
+    if (typeof payload.k !== "string" || typeof payload.n !== "string")
+      return null;
+
+    return {
+      countries: payload.c,
+      view: {
+        sort: payload.f[0] as CitySort,
+        minPollution: payload.f[1],
+        maxPollution: payload.f[2],
+      },
+      snapshotId: payload.s,
+      offset: payload.o,
+      pollution: payload.p,
+      key: payload.k,
+      name: payload.n,
+    };
+  } catch {
+    return null;
+  }
+}
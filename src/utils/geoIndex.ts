@@ -0,0 +1,118 @@
+// geoIndex.ts
+// Radius lookups over points on the globe. Points are bucketed into a grid
+// of fixed-size lat/lon cells; a query only visits the cells overlapping
+// the circle's bounding box, then measures great-circle distances there.
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export const isValidCoordinates = (c: Partial<Coordinates> | null) =>
+  Number.isFinite(c?.lat) &&
+  Number.isFinite(c?.lon) &&
+  Math.abs(c!.lat!) <= 90 &&
+  Math.abs(c!.lon!) <= 180;
+
+// Haversine distance
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export class GeoIndex<T> {
+  private cells = new Map<string, Array<{ item: T; at: Coordinates }>>();
+  private readonly columns: number;
+  readonly size: number;
+
+  // Items without coordinates are left out
+  constructor(
+    items: T[],
+    locate: (item: T) => Coordinates | null,
+    private readonly cellDeg = 1
+  ) {
+    this.columns = Math.ceil(360 / cellDeg);
+    let size = 0;
+    for (const item of items) {
+      const at = locate(item);
+      if (!at || !isValidCoordinates(at)) continue;
+
+      const key = this.cellKey(this.row(at.lat), this.column(at.lon));
+      const cell = this.cells.get(key);
+      if (cell) cell.push({ item, at });
+      else this.cells.set(key, [{ item, at }]);
+      size++;
+    }
+    this.size = size;
+  }
+
+  // Items within `radiusKm` of `center`, nearest first
+  within(
+    center: Coordinates,
+    radiusKm: number
+  ): Array<{ item: T; distanceKm: number }> {
+    const found: Array<{ item: T; distanceKm: number }> = [];
+    const dLat = radiusKm / KM_PER_DEGREE;
+    const minRow = this.row(Math.max(-90, center.lat - dLat));
+    const maxRow = this.row(Math.min(90, center.lat + dLat));
+
+    // Longitude degrees shrink towards the poles; past them, or when the
+    // box spans the globe, every column is visited
+    const widest = Math.max(
+      Math.abs(center.lat - dLat),
+      Math.abs(center.lat + dLat)
+    );
+    const dLon =
+      widest >= 90
+        ? 180
+        : radiusKm / (KM_PER_DEGREE * Math.cos(toRad(widest)));
+    const columns =
+      dLon >= 180
+        ? [...Array(this.columns).keys()]
+        : this.columnRange(center.lon - dLon, center.lon + dLon);
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (const column of columns) {
+        for (const entry of this.cells.get(this.cellKey(row, column)) ?? []) {
+          const distance = distanceKm(center, entry.at);
+          if (distance <= radiusKm) {
+            found.push({ item: entry.item, distanceKm: distance });
+          }
+        }
+      }
+    }
+    return found.sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+
+  private row(lat: number) {
+    return Math.floor((Math.min(lat, 89.999999) + 90) / this.cellDeg);
+  }
+
+  // Columns wrap around the antimeridian
+  private column(lon: number) {
+    const index = Math.floor((lon + 180) / this.cellDeg);
+    return ((index % this.columns) + this.columns) % this.columns;
+  }
+
+  private columnRange(from: number, to: number): number[] {
+    const first = Math.floor((from + 180) / this.cellDeg);
+    const last = Math.floor((to + 180) / this.cellDeg);
+    const columns = new Set<number>();
+    for (let i = first; i <= last; i++) {
+      columns.add(((i % this.columns) + this.columns) % this.columns);
+    }
+    return [...columns];
+  }
+
+  private cellKey(row: number, column: number) {
+    return `${row}:${column}`;
+  }
+}
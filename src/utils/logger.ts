@@ -1,6 +1,41 @@
+// logger.ts
+// Leveled JSON logger: one object per line, with the current request id
+// (see requestContext) attached. Errors passed as fields are serialized
+// with their name, message and stack.
+
+import { env } from "../config/env";
+import { LOG_LEVELS, LogLevel } from "./constants";
+import { currentRequestId } from "./requestContext";
+
+export type LogFields = Record<string, unknown>;
+
+const serialize = (_key: string, value: unknown) =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+function write(level: LogLevel, msg: string, fields?: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(env.logLevel)) return;
+
+  const requestId = currentRequestId();
+  const line = JSON.stringify(
+    {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...(requestId ? { requestId } : {}),
+      ...fields,
+    },
+    serialize
+  );
+
+  if (level === "error" || level === "warn") process.stderr.write(line + "\n");
+  else process.stdout.write(line + "\n");
+}
+
 export const logger = {
-  info: (...args: unknown[]) => console.log("[INFO]", ...args),
-  warn: (...args: unknown[]) => console.warn("[WARN]", ...args),
-  error: (...args: unknown[]) => console.error("[ERROR]", ...args),
-  debug: (...args: unknown[]) => console.debug("[DEBUG]", ...args),
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
 };
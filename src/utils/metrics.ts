@@ -0,0 +1,108 @@
+// metrics.ts
+// Prometheus series served at GET /metrics. Labels stay low-cardinality:
+// route templates (not raw URLs), cache namespaces, countries and the
+// fixed verdict/reason sets of the classifier and Wikipedia validation.
+
+import {
+  Counter,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "Latency of API requests by route template",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry],
+});
+
+// event: hit | miss | eviction
+export const cacheEvents = new Counter({
+  name: "cache_events_total",
+  help: "Cache hits, misses and evictions per cache",
+  labelNames: ["cache", "backend", "event"] as const,
+  registers: [metricsRegistry],
+});
+
+// api: pollution | wikipedia | wikidata; operation: login | refresh | fetch |
+// batch | entities
+export const upstreamRequests = new Counter({
+  name: "upstream_requests_total",
+  help: "Upstream HTTP calls by outcome (status code, or 'error' without a response)",
+  labelNames: ["api", "operation", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+export const upstreamDuration = new Histogram({
+  name: "upstream_request_duration_seconds",
+  help: "Latency of single upstream HTTP calls",
+  labelNames: ["api", "operation"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10],
+  registers: [metricsRegistry],
+});
+
+export const upstreamRateLimited = new Counter({
+  name: "upstream_rate_limited_total",
+  help: "Upstream 429 responses",
+  labelNames: ["api"] as const,
+  registers: [metricsRegistry],
+});
+
+export const upstreamRetries = new Counter({
+  name: "upstream_retries_total",
+  help: "Upstream calls retried after a failure",
+  labelNames: ["api", "operation"] as const,
+  registers: [metricsRegistry],
+});
+
+export const classifyVerdicts = new Counter({
+  name: "city_classify_verdicts_total",
+  help: "classify() verdicts for upstream rows",
+  labelNames: ["country", "verdict"] as const,
+  registers: [metricsRegistry],
+});
+
+export const wikiValidations = new Counter({
+  name: "wikipedia_validation_results_total",
+  help: "validatePageIsCity() outcomes by reason",
+  labelNames: ["country", "reason"] as const,
+  registers: [metricsRegistry],
+});
+
+export const wikidataValidations = new Counter({
+  name: "wikidata_validation_results_total",
+  help: "Wikidata item checks of accepted pages by reason",
+  labelNames: ["country", "reason"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Time one upstream HTTP call, recording its status code (axios errors
+ * carry the response) or "error" when no response arrived.
+ */
+export async function observeUpstream<T>(
+  api: "pollution" | "wikipedia" | "wikidata",
+  operation: string,
+  call: () => Promise<T>
+): Promise<T> {
+  const end = upstreamDuration.startTimer({ api, operation });
+  try {
+    const response = await call();
+    const status = (response as any)?.status;
+    upstreamRequests.inc({ api, operation, status: String(status ?? "ok") });
+    if (status === 429) upstreamRateLimited.inc({ api });
+    return response;
+  } catch (error: any) {
+    const status = error?.response?.status;
+    upstreamRequests.inc({ api, operation, status: String(status ?? "error") });
+    if (status === 429) upstreamRateLimited.inc({ api });
+    throw error;
+  } finally {
+    end();
+  }
+}
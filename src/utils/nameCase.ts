@@ -2,31 +2,23 @@
 // Generic "proper name" casing for place names.
 // - Keeps diacritics (ę, ź, ó, etc.)
 // - Capitalizes first letter and after separators: space, hyphen, em/en dashes, apostrophes
-// - Locale-aware for edge cases like ß/İ (pass e.g. "PL", "DE", "ES", "FR")
+// - Locale-aware for edge cases like ß/İ (pass a registry country code, e.g. "PL", or a locale)
+// - Keeps the country's name particles lower case inside a name ("Aix-en-Provence")
+
+import { countryRegistry } from "../config/countryRegistry";
 
 export function toNameCase(input: string, locale = "pl"): string {
   if (!input) return "";
 
-  // Map country codes to proper locale codes
-  const localeMap: Record<string, string> = {
-    PL: "pl",
-    DE: "de",
-    ES: "es",
-    FR: "fr",
-    pl: "pl",
-    de: "de",
-    es: "es",
-    fr: "fr",
-  };
-
-  const normalizedLocale = localeMap[locale] || locale.toLowerCase();
+  // Country codes resolve through the registry; anything else is a locale
+  const country = countryRegistry.has(locale)
+    ? countryRegistry.get(locale)
+    : null;
+  const normalizedLocale = country?.locale ?? locale.toLowerCase();
 
   // Normalize & lowercase in the chosen locale
   let s = input.normalize("NFKC").toLocaleLowerCase(normalizedLocale);
 
-  // Handle special cases for specific locales
-  s = handleLocaleSpecificCases(s, normalizedLocale);
-
   // Capitalize first letter and any letter after common separators:
   // \p{Zs} = any Unicode space separator
   // \p{Pd} = any Unicode dash (hyphen, en/em dash, non-breaking hyphen, etc.)
@@ -37,41 +29,24 @@ export function toNameCase(input: string, locale = "pl"): string {
     return sep + letter.toLocaleUpperCase(normalizedLocale);
   });
 
-  return s;
+  return country?.nameParticles.length
+    ? lowerParticles(s, country.nameParticles, normalizedLocale)
+    : s;
 }
 
-function handleLocaleSpecificCases(input: string, locale: string): string {
-  let result = input;
-
-  switch (locale) {
-    case "de":
-      // German: Handle ß properly - it should remain lowercase after capitalization rules
-      // and handle compound words with proper casing
-      break;
-
-    case "es":
-      // Spanish: Handle ñ, accented vowels, and proper casing for compound names
-      // Handle "de", "del", "de la", "de los", "de las" (should remain lowercase in middle of names)
-      result = result.replace(
-        /\b(de|del|de\s+la|de\s+los|de\s+las)\b/g,
-        (match, particle) => particle.toLowerCase()
-      );
-      break;
-
-    case "fr":
-      // French: Handle proper casing for articles and prepositions in place names
-      // "de", "du", "des", "le", "la", "les", "sur", "sous" should remain lowercase in middle
-      result = result.replace(
-        /\b(de|du|des|le|la|les|sur|sous|en|au|aux)\b/g,
-        (match, article) => article.toLowerCase()
-      );
-      break;
-
-    case "pl":
-      // Polish: Handle proper diacritics and compound place names
-      // No special lowercasing rules like Romance languages
-      break;
-  }
-
-  return result;
+// Particles between two other words go back to lower case; a leading one
+// ("La Coruña", "Le Havre") keeps its capital. Runs after capitalizing
+function lowerParticles(
+  input: string,
+  particles: string[],
+  locale: string
+): string {
+  const words = new Set(particles);
+  return input.replace(
+    /(?<=[\p{Zs}\p{Pd}])(\p{L}+)(?=[\p{Zs}\p{Pd}])/gu,
+    (word: string) => {
+      const lower = word.toLocaleLowerCase(locale);
+      return words.has(lower) ? lower : word;
+    }
+  );
 }
@@ -0,0 +1,16 @@
+// parseDate.ts
+// `from` / `to` query values: ISO 8601 date or date-time. Undefined when
+// absent, NaN when unparseable or not ISO 8601 ("March 3", "2024/1/2"),
+// so callers can tell the two apart.
+
+// 2024-01-02, 2024-01-02T10:30, 2024-01-02T10:30:00.000Z, ...+02:00
+const DATE = String.raw`\d{4}-\d{2}-\d{2}`;
+const TIME = String.raw`T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?`;
+const ZONE = String.raw`Z|[+-]\d{2}:\d{2}`;
+const ISO_DATE = new RegExp(`^${DATE}(?:${TIME}(?:${ZONE})?)?$`);
+
+export const parseDate = (raw: unknown): number | undefined => {
+  if (raw === undefined) return undefined;
+  const value = String(raw);
+  return ISO_DATE.test(value) ? Date.parse(value) : NaN;
+};
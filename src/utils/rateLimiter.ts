@@ -0,0 +1,126 @@
+// rateLimiter.ts
+// Shared sliding-window scheduler for an upstream API: at most
+// `maxRequests` grants in any `windowMs`. Waiters queue by priority
+// (interactive before background, FIFO within a priority), and background
+// work may only use the window up to `maxRequests - backgroundReserve`, so
+// a user request never waits behind the warmer. `pauseUntil` holds back
+// every caller, e.g. after a 429 with Retry-After.
+
+export type RequestPriority = "interactive" | "background";
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  background: 1,
+};
+
+export interface RateLimiterOptions {
+  maxRequests: number;
+  windowMs: number;
+  backgroundReserve: number;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  resolve: () => void;
+}
+
+export class RateLimiter {
+  private grants: number[] = []; // grant times inside the current window
+  private queue: Waiter[] = [];
+  private pausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: RateLimiterOptions) {}
+
+  // Resolves once the caller may send one request
+  acquire(priority: RequestPriority = "interactive"): Promise<void> {
+    return new Promise((resolve) => {
+      // Insert after every waiter of the same or a higher priority
+      const rank = PRIORITY_ORDER[priority];
+      const index = this.queue.findIndex(
+        (w) => PRIORITY_ORDER[w.priority] > rank
+      );
+      const waiter = { priority, resolve };
+      if (index < 0) this.queue.push(waiter);
+      else this.queue.splice(index, 0, waiter);
+
+      this.drain();
+    });
+  }
+
+  // Hold back every caller until `until` (never shortens a pause)
+  pauseUntil(until: number): void {
+    if (until <= this.pausedUntil) return;
+    this.pausedUntil = until;
+    this.drain();
+  }
+
+  getStatus() {
+    this.prune(Date.now());
+    return {
+      inWindow: this.grants.length,
+      maxRequests: this.options.maxRequests,
+      windowMs: this.options.windowMs,
+      queued: {
+        interactive: this.queue.filter((w) => w.priority === "interactive")
+          .length,
+        background: this.queue.filter((w) => w.priority === "background")
+          .length,
+      },
+      pausedUntil:
+        this.pausedUntil > Date.now()
+          ? new Date(this.pausedUntil).toISOString()
+          : null,
+    };
+  }
+
+  private prune(now: number) {
+    while (this.grants.length && now - this.grants[0] >= this.options.windowMs)
+      this.grants.shift();
+  }
+
+  private drain() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const now = Date.now();
+    this.prune(now);
+
+    while (this.queue.length) {
+      if (now < this.pausedUntil) {
+        return this.wake(this.pausedUntil - now);
+      }
+
+      const head = this.queue[0];
+      const limit =
+        head.priority === "background"
+          ? this.options.maxRequests - this.options.backgroundReserve
+          : this.options.maxRequests;
+
+      if (this.grants.length >= limit) {
+        // Wait until enough grants have left the window
+        const expiring = this.grants[this.grants.length - limit];
+        return this.wake(expiring + this.options.windowMs - now);
+      }
+
+      this.queue.shift();
+      this.grants.push(now);
+      head.resolve();
+    }
+  }
+
+  private wake(delay: number) {
+    this.timer = setTimeout(() => this.drain(), Math.max(delay, 1));
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date; null if unusable
+export function parseRetryAfter(header: unknown): number | null {
+  if (header === undefined || header === null || header === "") return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
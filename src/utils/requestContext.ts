@@ -0,0 +1,20 @@
+// requestContext.ts
+// Per-request async context. Everything awaited while handling a request
+// (services, upstream clients, cache) sees the same request id, so log
+// lines can be tied back to the request that caused them.
+
+import { AsyncLocalStorage } from "async_hooks";
+
+interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return storage.run({ requestId }, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
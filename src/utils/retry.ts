@@ -0,0 +1,89 @@
+// retry.ts
+// Retries with exponential backoff for the Wikipedia and Wikidata clients.
+// Network errors and 408/429/5xx gateway statuses are retried; a 429 waits
+// as long as its Retry-After asks and pauses the client's limiter for that
+// long, so other callers back off too.
+
+import { RateLimiter, parseRetryAfter } from "./rateLimiter";
+import { logger } from "./logger";
+import { upstreamRetries } from "./metrics";
+
+export interface RetryOptions {
+  api: string; // metrics label, e.g. "wikipedia"
+  name: string; // for logs and the final error, e.g. "Wikipedia API"
+  operation: string;
+  context: string;
+  limiter?: RateLimiter;
+  maxRetries?: number;
+  retryDelayMs?: number; // first backoff, doubled on every attempt
+}
+
+const RETRYABLE_CODES = [
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENETUNREACH",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+];
+
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export function chunk<T>(arr: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+export function isRetryableError(error: any): boolean {
+  if (RETRYABLE_CODES.includes(error?.code)) return true;
+  return RETRYABLE_STATUSES.includes(error?.response?.status);
+}
+
+export async function retryRequest<T>(
+  requestFn: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { api, name, operation, context, limiter } = options;
+  const maxRetries = options.maxRetries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  let lastError: any;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await requestFn();
+    } catch (error: any) {
+      lastError = error;
+      if (!isRetryableError(error) || attempt === maxRetries) break;
+
+      // Exponential backoff, or as long as a 429 asks
+      const retryAfter =
+        error.response?.status === 429
+          ? parseRetryAfter(error.response.headers?.["retry-after"])
+          : null;
+      const delay = retryAfter ?? retryDelayMs * Math.pow(2, attempt - 1);
+      if (error.response?.status === 429) {
+        limiter?.pauseUntil(Date.now() + delay);
+      }
+      logger.warn(`${name} call failed, retrying`, {
+        context,
+        attempt,
+        maxRetries,
+        retryInMs: delay,
+        error,
+      });
+      upstreamRetries.inc({ api, operation });
+      await sleep(delay);
+    }
+  }
+
+  logger.error(`${name} call failed`, {
+    context,
+    attempts: maxRetries,
+    error: lastError,
+  });
+  throw new Error(`${name} unavailable: ${lastError.message}`);
+}
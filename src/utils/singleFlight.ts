@@ -0,0 +1,18 @@
+// singleFlight.ts
+// In-flight deduplication: concurrent calls with the same key share one
+// execution and settle with its result or error. The key is released as
+// soon as the call settles, so later calls start fresh (and read the cache
+// the first call filled).
+
+export class SingleFlight<T> {
+  private inFlight = new Map<string, Promise<T>>();
+
+  do(key: string, fn: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const call = fn().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, call);
+    return call;
+  }
+}
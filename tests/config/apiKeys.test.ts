@@ -0,0 +1,71 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { env } from "../../src/config/env";
+import { loadAdminKeys, loadApiKeys } from "../../src/config/apiKeys";
+
+describe("API key configuration", () => {
+  const saved = { ...env };
+  afterEach(() => Object.assign(env, saved));
+
+  it("parses name:key[:limit] lists", () => {
+    env.apiKeys = "search:s3cret:120, reporting:an0ther ,";
+
+    expect(loadApiKeys()).toEqual([
+      {
+        name: "search",
+        key: "s3cret",
+        limit: 120,
+        windowMs: env.apiKeyWindowMs,
+      },
+      {
+        name: "reporting",
+        key: "an0ther",
+        limit: env.apiKeyQuota,
+        windowMs: env.apiKeyWindowMs,
+      },
+    ]);
+  });
+
+  it("keeps colons inside keys", () => {
+    env.apiKeys = "a:x:y:z,b:x:y:30";
+
+    expect(loadApiKeys().map((c) => [c.key, c.limit])).toEqual([
+      ["x:y:z", env.apiKeyQuota],
+      ["x:y", 30],
+    ]);
+  });
+
+  it("reports malformed entries by position without leaking them", () => {
+    env.apiKeys = "ok:key,hunter2-secret,other:key2";
+    expect(() => loadApiKeys()).toThrow(
+      new Error("Invalid API_KEYS entry 1: expected name:key[:limit]")
+    );
+
+    env.adminApiKeys = "root:";
+    expect(() => loadAdminKeys()).toThrow(
+      new Error("Invalid ADMIN_API_KEYS entry 0: expected name:key[:limit]")
+    );
+  });
+
+  it("merges the key file and rejects duplicate keys", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "api-keys-"));
+    try {
+      env.apiKeysFile = join(dir, "keys.json");
+      await writeFile(
+        env.apiKeysFile,
+        JSON.stringify([{ name: "file", key: "k2", limit: 5, windowMs: 1000 }])
+      );
+      env.apiKeys = "env:k1";
+      expect(loadApiKeys().map((c) => [c.name, c.limit, c.windowMs])).toEqual([
+        ["env", env.apiKeyQuota, env.apiKeyWindowMs],
+        ["file", 5, 1000],
+      ]);
+
+      env.apiKeys = "env:k2";
+      expect(() => loadApiKeys()).toThrow(/Duplicate API key configured for/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
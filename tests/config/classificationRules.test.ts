@@ -0,0 +1,120 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import defaultRules from "../../src/config/classification-rules.json";
+import { parseRules } from "../../src/config/classificationRules";
+import { classify } from "../../src/utils/cityFilter";
+import { PL, DE, FR } from "../helpers/countries";
+
+type Rules = typeof import("../../src/config/classificationRules");
+
+const withVersion = (version: number, countries: object = {}) => ({
+  ...defaultRules,
+  version,
+  countries,
+});
+
+describe("classification rules", () => {
+  it("adds country sections to the default lists", () => {
+    const rules = parseRules(
+      withVersion(1, { DE: { facilityWords: ["*bahnhof"] } }),
+      "test"
+    );
+
+    expect(rules.countries[DE].facility.test("Hauptbahnhof")).toBe(true);
+    expect(rules.countries[DE].facility.test("Airport")).toBe(true);
+    expect(rules.countries[FR].facility.test("Hauptbahnhof")).toBe(false);
+
+    expect(
+      classify(
+        { name: "Berlin Hauptbahnhof", pollution: 10 },
+        "DE",
+        rules.countries[DE]
+      ).verdict
+    ).toBe("reject");
+  });
+
+  it("matches words regardless of case and diacritics", () => {
+    const rules = parseRules(
+      withVersion(1, { PL: { adminWords: ["gmina"] } }),
+      "test"
+    );
+    expect(rules.countries[PL].admin.test("GMINA Kłodzko")).toBe(true);
+    expect(rules.countries[PL].admin.test("Gminaczyce")).toBe(false);
+  });
+
+  it("rejects invalid files with the offending entry", () => {
+    const { default: lists } = defaultRules;
+
+    expect(() => parseRules({ ...defaultRules, version: 0 }, "f")).toThrow(
+      /"version" must be a positive integer/
+    );
+    expect(() => parseRules(withVersion(1, { XX: {} }), "f")).toThrow(
+      /unsupported country "XX"/
+    );
+    expect(() =>
+      parseRules(withVersion(1, { PL: { railWords: ["kolej"] } }), "f")
+    ).toThrow(/countries\.PL: unknown list "railWords"/);
+    expect(() =>
+      parseRules(
+        { ...withVersion(1), default: { ...lists, categoryDeny: ["(("] } },
+        "f"
+      )
+    ).toThrow(/default\.categoryDeny: invalid pattern/);
+    const { adminWords: _dropped, ...partial } = lists;
+    expect(() =>
+      parseRules({ ...withVersion(1), default: partial }, "f")
+    ).toThrow(/default is missing adminWords/);
+  });
+
+  describe("reloading", () => {
+    let dir: string;
+    let file: string;
+    let rules: Rules["classificationRules"];
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "classification-rules-"));
+      file = join(dir, "rules.json");
+      await writeFile(file, JSON.stringify(withVersion(1)));
+
+      process.env.CLASSIFICATION_RULES_FILE = file;
+      jest.isolateModules(() => {
+        rules = (
+          require("../../src/config/classificationRules") as Rules
+        ).classificationRules;
+      });
+    });
+
+    afterEach(async () => {
+      process.env.CLASSIFICATION_RULES_FILE = "";
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("swaps in a new valid version", async () => {
+      expect(rules.getStatus()).toMatchObject({ version: 1, file });
+      const station = () => rules.forCountry(DE).facility.test("Bahnhof");
+      expect(station()).toBe(false);
+
+      await writeFile(
+        file,
+        JSON.stringify(withVersion(2, { DE: { facilityWords: ["bahnhof"] } }))
+      );
+
+      expect(rules.reload()).toBe(true);
+      expect(rules.getStatus()).toMatchObject({ version: 2, lastError: null });
+      expect(station()).toBe(true);
+    });
+
+    it("keeps the active version when the new file is invalid", async () => {
+      await writeFile(file, JSON.stringify(withVersion(2, { XX: {} })));
+      expect(rules.reload()).toBe(false);
+      await writeFile(file, "{ not json");
+      expect(rules.reload()).toBe(false);
+
+      const status = rules.getStatus();
+      expect(status.version).toBe(1);
+      expect(status.lastError?.message).toMatch(/JSON/);
+      expect(rules.forCountry(PL).facility.test("Airport")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import defaultRules from "../../src/config/classification-rules.json";
+import { parseCountries } from "../../src/config/countryRegistry";
+
+type Registry = typeof import("../../src/config/countryRegistry");
+type Rules = typeof import("../../src/config/classificationRules");
+
+const country = (code: string, locale: string, extra: object = {}) => ({
+  code,
+  label: code,
+  locale,
+  wikidataId: "Q1",
+  disambiguationSuffix: `, ${code}`,
+  ...extra,
+});
+
+describe("country registry", () => {
+  it("rejects invalid files with the offending entry", () => {
+    const parse = (countries: unknown[]) =>
+      parseCountries({ version: 1, countries }, "f");
+
+    expect(() => parseCountries({ version: 1, countries: [] }, "f")).toThrow(
+      /"countries" must be a non-empty array/
+    );
+    expect(() => parse([country("pl", "pl")])).toThrow(
+      /countries\[0\]\.code must be two upper-case letters/
+    );
+    expect(() => parse([country("PL", "not a locale!")])).toThrow(
+      /countries\[0\]\.locale "not a locale!" is not a valid locale/
+    );
+    expect(() =>
+      parse([country("FR", "fr", { nameParticles: ["de la"] })])
+    ).toThrow(/nameParticles must be an array of single words/);
+    expect(() => parse([country("PL", "pl"), country("PL", "pl")])).toThrow(
+      /country "PL" is listed twice/
+    );
+  });
+
+  it("canonicalizes locales and lower-cases particles", () => {
+    const [fr] = parseCountries(
+      {
+        version: 1,
+        countries: [country("FR", "FR", { nameParticles: ["Sur"] })],
+      },
+      "f"
+    );
+    expect(fr).toMatchObject({ locale: "fr", nameParticles: ["sur"] });
+  });
+
+  describe("from a file", () => {
+    let dir: string;
+    let registry: Registry["countryRegistry"];
+    let parseRules: Rules["parseRules"];
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "country-registry-"));
+      const file = join(dir, "countries.json");
+      await writeFile(
+        file,
+        JSON.stringify({
+          version: 1,
+          countries: [
+            country("IT", "it"),
+            country("BR", "pt-BR"),
+            country("IE", "en-IE"),
+          ],
+        })
+      );
+
+      // The bundled rules name the bundled countries
+      const rulesFile = join(dir, "rules.json");
+      await writeFile(
+        rulesFile,
+        JSON.stringify({ version: 1, default: defaultRules.default })
+      );
+
+      process.env.COUNTRIES_FILE = file;
+      process.env.CLASSIFICATION_RULES_FILE = rulesFile;
+      jest.isolateModules(() => {
+        registry = (require("../../src/config/countryRegistry") as Registry)
+          .countryRegistry;
+        parseRules = (require("../../src/config/classificationRules") as Rules)
+          .parseRules;
+      });
+    });
+
+    afterEach(async () => {
+      process.env.COUNTRIES_FILE = "";
+      process.env.CLASSIFICATION_RULES_FILE = "";
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("only accepts listed codes", () => {
+      expect(registry.codes).toEqual(["IT", "BR", "IE"]);
+      expect(registry.has("IT")).toBe(true);
+      expect(registry.has("PL")).toBe(false);
+      expect(registry.has("it")).toBe(false);
+    });
+
+    it("offers English and each country's language on Wikipedia", () => {
+      expect(registry.wikiLanguages).toEqual(["en", "it", "pt"]);
+    });
+
+    it("accepts rule sections for the registry's languages only", () => {
+      const { default: lists, languages: bundled } = defaultRules;
+      const section = bundled.de;
+      const withLanguages = (languages: object) =>
+        parseRules({ version: 1, default: lists, languages }, "f");
+
+      expect(Object.keys(withLanguages({ it: section }).languages)).toEqual([
+        "it",
+      ]);
+      expect(() => withLanguages({ de: section })).toThrow(
+        /unsupported language "de"/
+      );
+    });
+  });
+});
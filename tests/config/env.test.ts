@@ -0,0 +1,29 @@
+type Env = typeof import("../../src/config/env");
+
+const loadEnv = (): Env["env"] => {
+  let env!: Env["env"];
+  jest.isolateModules(() => {
+    env = (require("../../src/config/env") as Env).env;
+  });
+  return env;
+};
+
+describe("env", () => {
+  const saved = process.env.HISTORY_FILE;
+  afterEach(() => {
+    process.env.HISTORY_FILE = saved;
+  });
+
+  it("persists history under data/ unless told otherwise", () => {
+    delete process.env.HISTORY_FILE;
+    expect(loadEnv().historyFile).toBe("data/pollution-history.ndjson");
+
+    process.env.HISTORY_FILE = "/var/lib/cities/history.ndjson";
+    expect(loadEnv().historyFile).toBe("/var/lib/cities/history.ndjson");
+  });
+
+  it("keeps history in memory when HISTORY_FILE is empty", () => {
+    process.env.HISTORY_FILE = "";
+    expect(loadEnv().historyFile).toBe("");
+  });
+});
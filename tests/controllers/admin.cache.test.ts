@@ -0,0 +1,144 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { adminApp } from "../helpers/app";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+import { PL } from "../helpers/countries";
+
+const admins = [{ name: "ops", key: "adm1n", limit: 1, windowMs: 1000 }];
+const KEY = { "X-Admin-Key": "adm1n" };
+
+const settle = () => new Promise((r) => setTimeout(r, 20));
+
+describe("admin cache API", () => {
+  let pollu: FakePollu;
+  let wiki: FakeWiki;
+  let service: CityService;
+  let app: ReturnType<typeof adminApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    pollu = new FakePollu({ PL: towns(4) });
+    wiki = new FakeWiki();
+    service = new CityService(pollu.asClient(), wiki.asClient());
+    app = adminApp(service, admins);
+    await service.getMostPollutedByCountry([PL], 4, 1);
+  });
+
+  it("is closed without admin keys and needs a valid key", async () => {
+    const closed = adminApp(service, []);
+    await request(closed).get("/api/v1/admin/cache").set(KEY).expect(403);
+
+    await request(app).get("/api/v1/admin/cache").expect(401);
+    await request(app)
+      .get("/api/v1/admin/cache")
+      .set("X-Admin-Key", "guess")
+      .expect(401);
+  });
+
+  it("reports each country's cache entry", async () => {
+    const res = await request(app)
+      .get("/api/v1/admin/cache")
+      .set(KEY)
+      .expect(200);
+    const byCountry = Object.fromEntries(
+      res.body.countries.map((c: { country: string }) => [c.country, c])
+    );
+
+    expect(byCountry.PL).toMatchObject({
+      state: "fresh",
+      cities: 4,
+      isComplete: true,
+      rebuilding: false,
+    });
+    expect(byCountry.DE).toMatchObject({ state: "missing", cities: null });
+  });
+
+  it("drops a country's ranking together with its upstream pages", async () => {
+    await cacheService.setPollutionPage("PL", 1, 50, { results: [] });
+    await cacheService.setPollutionPage("PL", 2, 50, { results: [] });
+    await cacheService.setPollutionPage("DE", 1, 50, { results: [] });
+
+    const res = await request(app)
+      .delete("/api/v1/admin/cache/countries/pl")
+      .set(KEY)
+      .expect(200);
+
+    expect(res.body).toEqual({
+      country: "PL",
+      removed: { entry: true, pollutionPages: 2 },
+    });
+    expect(await cacheService.getCountryCache("PL")).toBeNull();
+    expect(await cacheService.getPollutionPage("DE", 1, 50)).not.toBeNull();
+  });
+
+  it("drops single upstream pages", async () => {
+    await cacheService.setPollutionPage("PL", 2, 50, { results: [] });
+
+    const res = await request(app)
+      .delete("/api/v1/admin/cache/pollution/PL/2")
+      .set(KEY)
+      .expect(200);
+    expect(res.body).toEqual({
+      country: "PL",
+      page: 2,
+      limit: 50,
+      removed: true,
+    });
+
+    await request(app)
+      .delete("/api/v1/admin/cache/pollution/PL/0")
+      .set(KEY)
+      .expect(400);
+  });
+
+  it("rebuilds one country at a time in the background", async () => {
+    pollu.rows.PL = towns(6);
+    // Hold the crawl so the first rebuild is still running
+    let release = () => {};
+    const held = new Promise<void>((r) => (release = r));
+    const fetchPage = pollu.fetchCountryPage.bind(pollu);
+    jest
+      .spyOn(pollu, "fetchCountryPage")
+      .mockImplementation(async (country, page) => {
+        await held;
+        return fetchPage(country, page);
+      });
+
+    const first = await request(app)
+      .post("/api/v1/admin/cache/countries/PL/rebuild")
+      .set(KEY)
+      .expect(202);
+    const second = await request(app)
+      .post("/api/v1/admin/cache/countries/PL/rebuild")
+      .set(KEY)
+      .expect(202);
+
+    expect(first.body.status).toBe("started");
+    expect(second.body.status).toBe("already-running");
+
+    release();
+    await settle();
+    expect((await cacheService.getCountryCache("PL"))?.cities).toHaveLength(6);
+  });
+
+  it("rebuilds countries listing an invalidated Wikipedia title", async () => {
+    const title = towns(1)[0].name;
+    await cacheService.setWikiSummary(title, {
+      description: "Outdated.",
+      facts: null,
+      coordinates: null,
+    });
+    wiki.titles = [];
+
+    const res = await request(app)
+      .delete(`/api/v1/admin/cache/wiki/${title}`)
+      .set(KEY)
+      .expect(200);
+    expect(res.body).toEqual({ title, removed: true, rebuilding: ["PL"] });
+
+    await settle();
+    expect(wiki.titles).toContain(title);
+    expect(await cacheService.getWikiSummary(title)).toBeUndefined();
+  });
+});
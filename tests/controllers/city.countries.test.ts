@@ -0,0 +1,80 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki, Row } from "../helpers/fakes";
+
+const rows = (names: string[], pollution: number[]): Row[] =>
+  names.map((name, i) => ({ name, pollution: pollution[i] }));
+
+describe("GET /cities with several countries", () => {
+  let pollu: FakePollu;
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    pollu = new FakePollu({
+      PL: rows(["Kraków", "Łódź", "Lublin"], [90, 70, 50]),
+      DE: rows(["Berlin", "München", "Essen"], [95, 80, 50]),
+      ES: rows(["Madrid"], [60]),
+      FR: rows(["Paris"], [85]),
+    });
+    app = cityApp(new CityService(pollu.asClient(), new FakeWiki().asClient()));
+  });
+
+  it("merges the countries into one ranking", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=pl,DE&limit=6")
+      .expect(200);
+
+    expect(
+      res.body.cities.map((c: { name: string; country: string }) => [
+        c.name,
+        c.country,
+      ])
+    ).toEqual([
+      ["Berlin", "Germany"],
+      ["Kraków", "Poland"],
+      ["München", "Germany"],
+      ["Łódź", "Poland"],
+      // Ties are ordered by key, whatever the request order
+      ["Essen", "Germany"],
+      ["Lublin", "Poland"],
+    ]);
+    expect(new Set(pollu.calls.map((c) => c.country))).toEqual(
+      new Set(["PL", "DE"])
+    );
+  });
+
+  it("treats the country order and duplicates as irrelevant", async () => {
+    const a = await request(app)
+      .get("/api/v1/cities?country=PL,DE")
+      .expect(200);
+    const b = await request(app)
+      .get("/api/v1/cities?country=DE,PL,de")
+      .expect(200);
+    expect(b.body.cities).toEqual(a.body.cities);
+  });
+
+  it("expands ALL to every registered country", async () => {
+    const res = await request(app).get("/api/v1/cities?country=ALL&limit=3");
+
+    expect(res.status).toBe(200);
+    expect(res.body.cities.map((c: { name: string }) => c.name)).toEqual([
+      "Berlin",
+      "Kraków",
+      "Paris",
+    ]);
+    expect(new Set(pollu.calls.map((c) => c.country))).toEqual(
+      new Set(["PL", "DE", "ES", "FR"])
+    );
+  });
+
+  it("rejects the request when any country is unknown", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL,XX")
+      .expect(400);
+    expect(res.body.error).toMatch(/Invalid or missing country/);
+    expect(pollu.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,102 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+
+const clients = [{ name: "app", key: "k-app", limit: 4, windowMs: 60_000 }];
+const KEY = { "X-API-Key": "k-app" };
+
+describe("GET /cities/explain", () => {
+  let wiki: FakeWiki;
+  let service: CityService;
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    const rows = towns(4);
+    rows.push({ ...rows[0] }); // listed twice upstream
+    wiki = new FakeWiki();
+    wiki.notCities.add(rows[1].name);
+    service = new CityService(
+      new FakePollu({ PL: rows }, 10).asClient(),
+      wiki.asClient()
+    );
+    app = cityApp(service, clients);
+  });
+
+  it("needs an API key and counts against its quota", async () => {
+    await request(app).get("/api/v1/cities/explain?country=PL").expect(401);
+    expect(wiki.titles).toEqual([]);
+
+    const res = await request(app)
+      .get("/api/v1/cities/explain?country=PL")
+      .set(KEY)
+      .expect(200);
+    expect(res.headers["ratelimit-remaining"]).toBe("3");
+  });
+
+  it("explains each upstream row", async () => {
+    const [first, second] = towns(2).map((t) => t.name);
+
+    const res = await request(app)
+      .get("/api/v1/cities/explain?country=pl")
+      .set(KEY)
+      .expect(200);
+
+    expect(res.body).toMatchObject({
+      country: "PL",
+      name: null,
+      pages: 1,
+      totalPages: 1,
+      summary: { included: 3, "not-a-city": 1, duplicate: 1 },
+    });
+    expect(res.body.rows[0]).toMatchObject({
+      name: first,
+      outcome: "included",
+      wikipedia: { title: first, description: `${first} is a city.` },
+    });
+    expect(res.body.rows[1]).toMatchObject({
+      name: second,
+      outcome: "not-a-city",
+    });
+    expect(res.body.rows[4]).toMatchObject({
+      outcome: "duplicate",
+      duplicateOf: first,
+    });
+  });
+
+  it("narrows to one name", async () => {
+    const name = towns(3)[2].name;
+
+    const res = await request(app)
+      .get(`/api/v1/cities/explain?country=PL&name=${name}`)
+      .set(KEY)
+      .expect(200);
+
+    expect(res.body.name).toBe(name);
+    expect(res.body.rows.map((r: { name: string }) => r.name)).toEqual([name]);
+  });
+
+  it("takes the name from the path", async () => {
+    const name = towns(3)[2].name;
+
+    const res = await request(app)
+      .get(`/api/v1/cities/explain/${name}?country=PL`)
+      .set(KEY)
+      .expect(200);
+
+    expect(res.body.name).toBe(name);
+    expect(res.body.rows.map((r: { name: string }) => r.name)).toEqual([name]);
+  });
+
+  it("validates its query", async () => {
+    const queries = ["country=XX", "country=PL&name=%20", "country=PL&pages=0"];
+    for (const query of queries) {
+      await request(app)
+        .get(`/api/v1/cities/explain?${query}`)
+        .set(KEY)
+        .expect(400);
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+
+describe("GET /cities content negotiation", () => {
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    const pollu = new FakePollu({ PL: towns(8) });
+    app = cityApp(new CityService(pollu.asClient(), new FakeWiki().asClient()));
+  });
+
+  it("serves CSV with pagination metadata in headers", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL&limit=2")
+      .set("Accept", "text/csv")
+      .expect(200);
+
+    expect(res.type).toBe("text/csv");
+    expect(res.headers["x-has-more"]).toBe("true");
+    expect(res.headers["x-next-cursor"]).toBeTruthy();
+    expect(res.headers.vary).toMatch(/Accept/);
+    expect(res.text.split("\r\n")).toHaveLength(4);
+  });
+
+  it("lets format= win over the Accept header", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL&limit=2&format=ndjson")
+      .set("Accept", "text/csv")
+      .expect(200);
+
+    expect(res.type).toBe("application/x-ndjson");
+    expect(res.text.trim().split("\n").map((l) => JSON.parse(l).name)).toEqual(
+      towns(2).map((t) => t.name)
+    );
+  });
+
+  it("keeps the envelope in GeoJSON", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL&limit=2&format=geojson")
+      .expect(200);
+
+    expect(res.type).toBe("application/geo+json");
+    expect(res.body).toMatchObject({ type: "FeatureCollection", page: 1 });
+    expect(res.body.features).toHaveLength(2);
+    expect(res.headers["x-has-more"]).toBeUndefined();
+  });
+
+  it("answers 406 for formats it cannot produce", async () => {
+    await request(app).get("/api/v1/cities?country=PL&format=xml").expect(406);
+    await request(app)
+      .get("/api/v1/cities?country=PL")
+      .set("Accept", "application/xml")
+      .expect(406);
+  });
+});
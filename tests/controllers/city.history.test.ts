@@ -0,0 +1,49 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { pollutionHistory } from "../../src/services/pollution.history";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki } from "../helpers/fakes";
+import { ES } from "../helpers/countries";
+
+describe("GET /cities/:country/:name/history", () => {
+  const app = cityApp(
+    new CityService(new FakePollu({}).asClient(), new FakeWiki().asClient())
+  );
+
+  beforeAll(async () => {
+    for (const [day, pollution] of [[1, 30], [2, 45], [3, 38]]) {
+      await pollutionHistory.record(
+        ES,
+        [{ city: "Móstoles", pollution }],
+        Date.parse(`2026-10-0${day}T12:00:00Z`)
+      );
+    }
+  });
+
+  it("returns the points between from and to", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities/es/mostoles/history?from=2026-10-02&to=2026-10-03")
+      .expect(200);
+
+    expect(res.body).toMatchObject({
+      name: "Móstoles",
+      country: "Spain",
+      from: "2026-10-02T00:00:00.000Z",
+      to: "2026-10-03T00:00:00.000Z",
+      count: 1,
+      points: [{ at: "2026-10-02T12:00:00.000Z", pollution: 45 }],
+    });
+  });
+
+  it("rejects unparseable or inverted ranges", async () => {
+    for (const query of ["from=yesterday", "from=2026-10-03&to=2026-10-01"]) {
+      await request(app)
+        .get(`/api/v1/cities/ES/Mostoles/history?${query}`)
+        .expect(400);
+    }
+  });
+
+  it("is a 404 for a city never recorded", async () => {
+    await request(app).get("/api/v1/cities/ES/Getafe/history").expect(404);
+  });
+});
@@ -0,0 +1,69 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+
+describe("localized city descriptions", () => {
+  const [translated, english] = towns(2).map((t) => t.name);
+  let wiki: FakeWiki;
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    wiki = new FakeWiki();
+    wiki.local = { de: new Set([translated]) };
+    const service = new CityService(
+      new FakePollu({ DE: towns(2) }).asClient(),
+      wiki.asClient()
+    );
+    app = cityApp(service);
+  });
+
+  const descriptions = (res: request.Response) =>
+    res.body.cities.map((c: any) => [c.description, c.descriptionLang]);
+
+  it("uses the local edition and falls back to English", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=DE&lang=de")
+      .expect(200);
+
+    expect(descriptions(res)).toEqual([
+      [`${translated} (de)`, "de"],
+      [`${english} is a city.`, "en"],
+    ]);
+    expect(res.headers["content-language"]).toBe("de");
+    expect(res.headers.vary).toMatch(/Accept-Language/);
+  });
+
+  it("negotiates Accept-Language when lang is absent", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=DE")
+      .set("Accept-Language", "fr-CH, de;q=0.9")
+      .expect(200);
+    expect(res.headers["content-language"]).toBe("fr");
+
+    const german = await request(app)
+      .get("/api/v1/cities?country=DE")
+      .set("Accept-Language", "de-DE, en;q=0.5")
+      .expect(200);
+    expect(descriptions(german)[0]).toEqual([`${translated} (de)`, "de"]);
+  });
+
+  it("lets lang win over Accept-Language", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=DE&lang=en")
+      .set("Accept-Language", "de")
+      .expect(200);
+
+    expect(res.headers["content-language"]).toBe("en");
+    expect(descriptions(res)[0]).toEqual([`${translated} is a city.`, "en"]);
+  });
+
+  it("rejects unsupported languages", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=DE&lang=it")
+      .expect(400);
+    expect(res.body.error).toMatch(/Invalid lang/);
+  });
+});
@@ -0,0 +1,74 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+
+describe("GET /cities/nearby", () => {
+  const rows = towns(5);
+  const [center, north, unlocated, border, far] = rows.map((r) => r.name);
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    const wiki = new FakeWiki();
+    wiki.coordinates = {
+      [center]: { lat: 52.2297, lon: 21.0122 }, // Warsaw
+      [north]: { lat: 52.5, lon: 21.0122 }, // 30 km north
+      [border]: { lat: 52.35, lon: 14.55 }, // Frankfurt (Oder), 440 km
+      [far]: { lat: 48.1351, lon: 11.582 }, // Munich, 810 km
+    };
+    const pollu = new FakePollu({
+      PL: rows.slice(0, 3),
+      DE: [
+        { name: border, pollution: 50 },
+        { name: far, pollution: 120 },
+      ],
+    });
+    app = cityApp(new CityService(pollu.asClient(), wiki.asClient()));
+  });
+
+  const names = (res: request.Response) =>
+    res.body.cities.map((c: { name: string }) => c.name);
+
+  it("returns located cities in range, nearest first", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities/nearby?lat=52.2297&lon=21.0122&radiusKm=50")
+      .expect(200);
+
+    expect(names(res)).toEqual([center, north]);
+    expect(res.body.cities.map((c: any) => c.distanceKm)).toEqual([0, 30.1]);
+    expect(res.body).toMatchObject({
+      radiusKm: 50,
+      sort: "distance",
+      count: 2,
+    });
+    expect(names(res)).not.toContain(unlocated);
+  });
+
+  it("searches every country and can order by pollution", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities/nearby")
+      .query({ lat: 52.2297, lon: 21.0122, radiusKm: 500, sort: "pollution" })
+      .expect(200);
+
+    expect(names(res)).toEqual([center, north, border]);
+    expect(res.body.cities[2]).toMatchObject({
+      country: "Germany",
+      pollution: 50,
+    });
+  });
+
+  it("validates the query", async () => {
+    const queries = [
+      "lon=21",
+      "lat=91&lon=21",
+      "lat=52&lon=21&radiusKm=0",
+      "lat=52&lon=21&radiusKm=501",
+      "lat=52&lon=21&sort=name",
+    ];
+    for (const query of queries) {
+      await request(app).get(`/api/v1/cities/nearby?${query}`).expect(400);
+    }
+  });
+});
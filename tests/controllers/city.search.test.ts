@@ -0,0 +1,56 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki } from "../helpers/fakes";
+
+describe("GET /cities/search", () => {
+  let pollu: FakePollu;
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    pollu = new FakePollu({
+      PL: [
+        { name: "Łódź", pollution: 80 },
+        { name: "Łomża", pollution: 70 },
+        { name: "Głogów", pollution: 60 },
+      ],
+      DE: [{ name: "Lörrach", pollution: 90 }],
+    });
+    app = cityApp(new CityService(pollu.asClient(), new FakeWiki().asClient()));
+  });
+
+  it("finds cities without diacritics, best match first", async () => {
+    const res = await request(app).get("/api/v1/cities/search?q=lo&country=PL");
+
+    expect(res.status).toBe(200);
+    expect(
+      res.body.cities.map((c: { name: string; match: string }) => [
+        c.name,
+        c.match,
+      ])
+    ).toEqual([
+      ["Łódź", "prefix"],
+      ["Łomża", "prefix"],
+      ["Głogów", "substring"],
+    ]);
+  });
+
+  it("searches every country unless narrowed down", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities/search?q=lo")
+      .expect(200);
+    expect(res.body.cities[0]).toMatchObject({
+      name: "Lörrach",
+      country: "Germany",
+    });
+  });
+
+  it("validates the query length", async () => {
+    await request(app)
+      .get(`/api/v1/cities/search?q=${"x".repeat(65)}`)
+      .expect(400);
+    await request(app).get("/api/v1/cities/search").expect(400);
+  });
+});
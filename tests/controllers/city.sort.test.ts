@@ -0,0 +1,75 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+
+type Dto = { name: string; pollution: number };
+
+describe("GET /cities filters and sort order", () => {
+  let pollu: FakePollu;
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    // 20 cities over four upstream pages, pollution 100 down to 81
+    pollu = new FakePollu({ PL: towns(20) });
+    app = cityApp(new CityService(pollu.asClient(), new FakeWiki().asClient()));
+  });
+
+  it("fills filtered pages by pulling further upstream pages", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL&maxPollution=88&limit=3")
+      .expect(200);
+
+    expect(res.body.cities.map((c: Dto) => c.pollution)).toEqual([88, 87, 86]);
+    expect(res.body.hasMore).toBe(true);
+    expect(pollu.calls.map((c) => c.page)).toEqual([1, 2, 3]);
+  });
+
+  it("ranks ascending over the whole country, even in fast mode", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL&sort=pollution_asc&limit=3")
+      .expect(200);
+
+    expect(res.body.cities.map((c: Dto) => c.pollution)).toEqual([81, 82, 83]);
+    expect(res.body.isComplete).toBe(true);
+    expect(pollu.calls).toHaveLength(4);
+  });
+
+  it("sorts by name over the whole country", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL&sort=name&limit=20")
+      .expect(200);
+
+    const names = towns(20)
+      .map((t) => t.name)
+      .sort((a, b) => a.localeCompare(b, "pl"));
+    expect(res.body.cities.map((c: Dto) => c.name)).toEqual(names);
+    expect(res.body.isComplete).toBe(true);
+  });
+
+  it("uses each country's collation for names", async () => {
+    pollu.rows.PL = [
+      { name: "Łask", pollution: 90 },
+      { name: "Lubin", pollution: 80 },
+      { name: "Mława", pollution: 70 },
+    ];
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL&sort=name")
+      .expect(200);
+
+    expect(res.body.cities.map((c: Dto) => c.name)).toEqual([
+      "Lubin",
+      "Łask",
+      "Mława",
+    ]);
+  });
+
+  it("rejects invalid ranges and sorts", async () => {
+    await request(app)
+      .get("/api/v1/cities?country=PL&minPollution=50&maxPollution=10")
+      .expect(400);
+    await request(app).get("/api/v1/cities?country=PL&sort=random").expect(400);
+  });
+});
@@ -0,0 +1,80 @@
+import { PolluApiClient } from "../../src/external/polluApi.client";
+import { cacheService } from "../../src/services/cache.service";
+import { PL, DE, ES, FR } from "../helpers/countries";
+
+const page = { meta: { page: 1, totalPages: 1 }, results: [] };
+
+const tooMany = (retryAfter?: string) =>
+  Object.assign(new Error("Request failed with status code 429"), {
+    response: {
+      status: 429,
+      headers: retryAfter ? { "retry-after": retryAfter } : {},
+    },
+  });
+
+describe("PolluApiClient rate limiting", () => {
+  let client: PolluApiClient;
+  let http: { get: jest.Mock; post: jest.Mock };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: 0 });
+    await cacheService.clearCache();
+    client = new PolluApiClient("user", "secret");
+    http = {
+      post: jest.fn(async () => ({ data: { token: "t", expiresIn: 3600 } })),
+      get: jest.fn(async () => ({ data: page })),
+    };
+    (client as any).axiosInstance = http;
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it("waits for Retry-After before trying again", async () => {
+    http.get.mockRejectedValueOnce(tooMany("3"));
+
+    const result = client.fetchCountryPage(PL, 1);
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(http.get).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual(page);
+    expect(http.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("pauses other callers during a 429 too", async () => {
+    http.get.mockRejectedValueOnce(tooMany("3"));
+
+    const first = client.fetchCountryPage(PL, 1);
+    await jest.advanceTimersByTimeAsync(0);
+    const second = client.fetchCountryPage(DE, 1);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(http.get).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(http.get).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after MAX_RETRIES 429s", async () => {
+    http.get.mockRejectedValue(tooMany());
+
+    const result = client.fetchCountryPage(PL, 1).catch((e) => e);
+    await jest.advanceTimersByTimeAsync(60_000);
+
+    expect((await result).message).toMatch(/Rate limit exceeded/);
+    expect(http.get).toHaveBeenCalledTimes(3);
+  });
+
+  it("spreads requests over the 5 per 10s window", async () => {
+    const pages = [PL, DE, ES, FR].flatMap((country) =>
+      [1, 2].map((p) => client.fetchCountryPage(country, p))
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    // login + 4 pages
+    expect(http.get).toHaveBeenCalledTimes(4);
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    await Promise.all(pages);
+    expect(http.get).toHaveBeenCalledTimes(8);
+  });
+});
@@ -0,0 +1,57 @@
+import { WikidataClient } from "../../src/external/wikidata.client";
+import { RATE_LIMITS } from "../../src/utils/constants";
+import { PL } from "../helpers/countries";
+
+const entities = (ids: string[]) => ({
+  data: {
+    entities: Object.fromEntries(ids.map((id) => [id, { id, claims: {} }])),
+  },
+});
+
+describe("WikidataClient rate limiting", () => {
+  let client: WikidataClient;
+  let get: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    client = new WikidataClient();
+    get = jest.fn(async (_url: string, { params }: any) =>
+      entities(params.ids.split("|"))
+    );
+    (client as any).action = { get };
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it("spreads calls over the limiter's window", async () => {
+    const { MAX_REQUESTS, MAX_IDS, WINDOW_MS } = RATE_LIMITS.WIKIDATA_API;
+    const ids = Array.from(
+      { length: MAX_IDS * (MAX_REQUESTS + 1) },
+      (_, i) => `Q${i + 1}`
+    );
+
+    const checks = client.checkItems(ids, PL, null);
+    await jest.advanceTimersByTimeAsync(WINDOW_MS - 1);
+    expect(get).toHaveBeenCalledTimes(MAX_REQUESTS);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect((await checks).size).toBe(ids.length);
+    expect(get).toHaveBeenCalledTimes(MAX_REQUESTS + 1);
+  });
+
+  it("retries a 429 after its Retry-After delay", async () => {
+    get.mockRejectedValueOnce(
+      Object.assign(new Error("429"), {
+        response: { status: 429, headers: { "retry-after": "2" } },
+      })
+    );
+
+    const checks = client.checkItems(["Q1"], PL, null);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(get).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect((await checks).get("Q1")).toMatchObject({ ok: true });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,68 @@
+import { WikipediaClient } from "../../src/external/wikipedia.client";
+import type { WikidataClient } from "../../src/external/wikidata.client";
+import { cacheService } from "../../src/services/cache.service";
+import { CACHE_CONFIG } from "../../src/utils/constants";
+import { PL } from "../helpers/countries";
+
+const cityPage = (title: string) => ({
+  normalized: [],
+  redirects: [],
+  pagesByTitle: new Map([
+    [
+      title,
+      {
+        ns: 0,
+        title,
+        extract: `${title} is a city in Poland.`,
+        categories: [],
+        pageprops: { wikibase_item: "Q1" },
+      },
+    ],
+  ]),
+  failed: new Set<string>(),
+});
+
+describe("WikipediaClient summary caching", () => {
+  let reason: string;
+  let setSummary: jest.SpyInstance;
+  let client: WikipediaClient;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    setSummary = jest.spyOn(cacheService, "setWikiSummary");
+    const wikidata = {
+      checkItems: async () =>
+        new Map([["Q1", { item: "Q1", ok: true, reason, facts: null }]]),
+    } as unknown as WikidataClient;
+    client = new WikipediaClient(wikidata);
+    (client as any).fetchOrFail = async (titles: string[]) =>
+      cityPage(titles[0]);
+  });
+
+  afterEach(() => setSummary.mockRestore());
+
+  it("keeps cross-checked summaries for the full TTL", async () => {
+    reason = "city";
+    await client.getSummaries(["Opole"], PL);
+
+    expect(setSummary).toHaveBeenCalledWith(
+      "Opole",
+      expect.objectContaining({ description: "Opole is a city in Poland." }),
+      "en",
+      CACHE_CONFIG.WIKIPEDIA_TTL
+    );
+  });
+
+  it("keeps summaries Wikidata could not check only briefly", async () => {
+    reason = "unavailable";
+    const { descriptions } = await client.getSummaries(["Opole"], PL);
+
+    expect(descriptions.get("Opole")).toBe("Opole is a city in Poland.");
+    expect(setSummary).toHaveBeenCalledWith(
+      "Opole",
+      expect.anything(),
+      "en",
+      CACHE_CONFIG.DEGRADED_TTL
+    );
+  });
+});
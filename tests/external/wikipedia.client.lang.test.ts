@@ -0,0 +1,65 @@
+import { WikipediaClient } from "../../src/external/wikipedia.client";
+import type { WikidataClient } from "../../src/external/wikidata.client";
+import { cacheService } from "../../src/services/cache.service";
+import { DE } from "../helpers/countries";
+
+const pages = (extracts: Record<string, string>) => ({
+  normalized: [],
+  redirects: [],
+  pagesByTitle: new Map(
+    Object.entries(extracts).map(([title, extract]) => [
+      title,
+      { ns: 0, title, extract, categories: [] },
+    ])
+  ),
+  failed: new Set<string>(),
+});
+
+describe("WikipediaClient editions", () => {
+  let client: WikipediaClient;
+  let fetch: jest.Mock;
+  const checkItems = jest.fn(async () => new Map());
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    client = new WikipediaClient({ checkItems } as unknown as WikidataClient);
+    fetch = jest.fn();
+    (client as any).fetchOrFail = fetch;
+  });
+
+  it("judges local articles by the edition's own rules", async () => {
+    fetch.mockResolvedValue(
+      pages({
+        Essen: "Essen ist eine kreisfreie Großstadt im Ruhrgebiet.",
+        Altendorf: "Altendorf ist ein Stadtteil von Essen.",
+      })
+    );
+
+    const { descriptions } = await client.getSummaries(
+      ["Essen", "Altendorf"],
+      DE,
+      "de"
+    );
+
+    expect(fetch).toHaveBeenCalledWith(["Essen", "Altendorf"], "de");
+    expect(descriptions.get("Essen")).toMatch(/Großstadt/);
+    expect(descriptions.get("Altendorf")).toBeNull();
+    // Wikidata checks are English-only
+    expect(checkItems).not.toHaveBeenCalled();
+  });
+
+  it("caches each edition separately", async () => {
+    fetch.mockResolvedValue(
+      pages({ Essen: "Essen ist eine kreisfreie Großstadt im Ruhrgebiet." })
+    );
+    await client.getSummaries(["Essen"], DE, "de");
+
+    expect(await cacheService.getWikiSummary("Essen", "de")).toMatchObject({
+      description: expect.stringMatching(/Großstadt/),
+    });
+    expect(await cacheService.getWikiSummary("Essen", "en")).toBeUndefined();
+
+    await client.getSummaries(["Essen"], DE, "de");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
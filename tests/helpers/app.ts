@@ -0,0 +1,36 @@
+import { Application } from "express";
+import { createApp } from "../../src/app";
+import { ApiClient } from "../../src/config/apiKeys";
+import { createApiRouter } from "../../src/routes";
+import { createAdminRouter } from "../../src/routes/admin.routes";
+import { createCityRouter } from "../../src/routes/city.routes";
+import { createCountryRouter } from "../../src/routes/country.routes";
+import { CacheAdmin } from "../../src/services/cache.admin";
+import { CacheWarmer } from "../../src/services/cache.warmer";
+import { CityService } from "../../src/services/city.service";
+
+export interface AppKeys {
+  apiClients?: ApiClient[];
+  adminClients?: ApiClient[];
+}
+
+// The production app and routes around a service wired to fakes. Without
+// keys the city routes are open and the admin API is closed
+export function testApp(
+  service: CityService,
+  { apiClients = [], adminClients = [] }: AppKeys = {}
+): Application {
+  const admin = new CacheAdmin(service);
+  const routers = {
+    cities: createCityRouter(service),
+    countries: createCountryRouter(service, admin, new CacheWarmer(service)),
+    admin: createAdminRouter(admin),
+  };
+  return createApp(createApiRouter(routers, apiClients, adminClients));
+}
+
+export const cityApp = (service: CityService, apiClients: ApiClient[] = []) =>
+  testApp(service, { apiClients });
+
+export const adminApp = (service: CityService, adminClients: ApiClient[]) =>
+  testApp(service, { adminClients });
@@ -0,0 +1,4 @@
+import type { SupportedCountry } from "../../src/config/countryRegistry";
+
+// Codes of the bundled registry, typed like checked input
+export const [PL, DE, ES, FR] = ["PL", "DE", "ES", "FR"] as SupportedCountry[];
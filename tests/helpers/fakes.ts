@@ -0,0 +1,127 @@
+import type { PolluApiClient } from "../../src/external/polluApi.client";
+import type {
+  SummaryBatch,
+  TitleCheck,
+  WikipediaClient,
+} from "../../src/external/wikipedia.client";
+import type { WikiLang } from "../../src/utils/constants";
+import type { Coordinates } from "../../src/utils/geoIndex";
+
+export interface Row {
+  name: string;
+  pollution: number;
+}
+
+const SYLLABLES = ["ka", "lo", "mi", "ne", "ru", "sa", "to", "vi"];
+
+// Distinct, city-looking names: "Kakaka", "Kakalo", ...
+export function townName(i: number): string {
+  const word = [64, 8, 1]
+    .map((size) => SYLLABLES[Math.floor(i / size) % SYLLABLES.length])
+    .join("");
+  return word[0].toUpperCase() + word.slice(1);
+}
+
+// `count` rows, most polluted first, like the upstream API returns them
+export const towns = (count: number, top = 100): Row[] =>
+  Array.from({ length: count }, (_, i) => ({
+    name: townName(i),
+    pollution: top - i,
+  }));
+
+/**
+ * Pollution API stand-in serving `rows` per country in pages of
+ * `pageSize`. Rows can be swapped between calls to mimic upstream changes.
+ */
+export class FakePollu {
+  calls: Array<{ country: string; page: number }> = [];
+  // Thrown by every call while set, like an unreachable upstream
+  failure: Error | null = null;
+
+  constructor(
+    public rows: Record<string, Row[]>,
+    private readonly pageSize = 5
+  ) {}
+
+  async fetchCountryPage(country: string, page: number) {
+    this.calls.push({ country, page });
+    if (this.failure) throw this.failure;
+    const rows = this.rows[country] ?? [];
+    const start = (page - 1) * this.pageSize;
+    return {
+      results: rows.slice(start, start + this.pageSize),
+      meta: { totalPages: Math.max(1, Math.ceil(rows.length / this.pageSize)) },
+    };
+  }
+
+  asClient(): PolluApiClient {
+    return this as unknown as PolluApiClient;
+  }
+}
+
+/**
+ * Wikipedia stand-in: every title is a city described as "<title> is a
+ * city.", except those listed in `notCities`. Other editions only have
+ * the articles listed in `local`, described as "<title> (<lang>)".
+ * Cities are located at `coordinates`, if listed there.
+ */
+export class FakeWiki {
+  titles: string[] = [];
+  notCities = new Set<string>();
+  local: Partial<Record<WikiLang, Set<string>>> = {};
+  coordinates: Record<string, Coordinates> = {};
+
+  async getSummaries(
+    titles: string[],
+    _country?: string,
+    lang: WikiLang = "en"
+  ): Promise<SummaryBatch> {
+    this.titles.push(...titles);
+    const describe = (t: string) =>
+      lang === "en"
+        ? this.notCities.has(t)
+          ? null
+          : `${t.replace(/_/g, " ")} is a city.`
+        : this.local[lang]?.has(t)
+        ? `${t.replace(/_/g, " ")} (${lang})`
+        : null;
+    return {
+      descriptions: new Map(titles.map((t) => [t, describe(t)])),
+      facts: new Map(),
+      coordinates: new Map(
+        titles
+          .filter((t) => this.coordinates[t])
+          .map((t) => [t, this.coordinates[t]])
+      ),
+      stale: false,
+    };
+  }
+
+  async checkTitles(titles: string[]): Promise<Map<string, TitleCheck>> {
+    this.titles.push(...titles);
+    return new Map(
+      titles.map((t) => {
+        const city = !this.notCities.has(t);
+        const check: TitleCheck = {
+          attempts: [
+            {
+              query: t,
+              resolved: t,
+              reason: city ? "intro-cityish" : "intro-noncity",
+              wikidata: null,
+            },
+          ],
+          description: city ? `${t.replace(/_/g, " ")} is a city.` : null,
+          facts: null,
+          coordinates: null,
+          available: true,
+        };
+        return [t, check];
+      })
+    );
+  }
+
+  asClient(): WikipediaClient {
+    return this as unknown as WikipediaClient;
+  }
+}
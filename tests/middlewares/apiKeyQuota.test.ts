@@ -0,0 +1,67 @@
+import express from "express";
+import request from "supertest";
+import { ApiClient } from "../../src/config/apiKeys";
+import { apiKeyAuth } from "../../src/middlewares/apiKey.middleware";
+import { enforceQuota } from "../../src/middlewares/quota.middleware";
+import { errorHandler } from "../../src/middlewares/error.middleware";
+
+const clients: ApiClient[] = [
+  { name: "small", key: "k-small", limit: 2, windowMs: 60_000 },
+  { name: "big", key: "k-big", limit: 100, windowMs: 60_000 },
+];
+
+const appWith = (keys: ApiClient[]) => {
+  const app = express();
+  app.use(apiKeyAuth(keys), enforceQuota());
+  app.get("/", (_req, res) =>
+    res.json({ client: res.locals.apiClient?.name ?? null })
+  );
+  app.use(errorHandler);
+  return app;
+};
+
+describe("API key auth and quotas", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("stays open while no keys are configured", async () => {
+    const res = await request(appWith([])).get("/").expect(200);
+    expect(res.body.client).toBeNull();
+    expect(res.headers["ratelimit-limit"]).toBeUndefined();
+  });
+
+  it("requires a known key", async () => {
+    const app = appWith(clients);
+    await request(app).get("/").expect(401);
+    await request(app).get("/").set("X-API-Key", "nope").expect(401);
+
+    const res = await request(app).get("/").set("X-API-Key", "k-big");
+    expect(res.body.client).toBe("big");
+  });
+
+  it("meters each key and answers 429 with Retry-After", async () => {
+    jest.useFakeTimers({ now: 0, doNotFake: ["nextTick", "setImmediate"] });
+    const app = appWith(clients);
+    const call = (key: string) => request(app).get("/").set("X-API-Key", key);
+
+    const first = await call("k-small").expect(200);
+    expect(first.headers).toMatchObject({
+      "ratelimit-policy": "2;w=60",
+      "ratelimit-limit": "2",
+      "ratelimit-remaining": "1",
+      "ratelimit-reset": "60",
+    });
+    await call("k-small").expect(200);
+
+    jest.setSystemTime(15_000);
+    const limited = await call("k-small").expect(429);
+    expect(limited.headers["retry-after"]).toBe("45");
+    expect(limited.body.message).toBe(
+      "Rate limit of 2 requests per 60s exceeded, retry in 45s"
+    );
+    await call("k-big").expect(200);
+
+    // A new window starts once the old one is over
+    jest.setSystemTime(60_000);
+    await call("k-small").expect(200);
+  });
+});
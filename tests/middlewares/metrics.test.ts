@@ -0,0 +1,72 @@
+import express, { Router } from "express";
+import request from "supertest";
+import { httpMetrics } from "../../src/middlewares/metrics.middleware";
+import { errorHandler } from "../../src/middlewares/error.middleware";
+import { AppError } from "../../src/errors/AppError";
+import { metricsRouter } from "../../src/routes/metrics.routes";
+import { httpRequestDuration, metricsRegistry } from "../../src/utils/metrics";
+
+const cities = Router();
+cities.get("/", (_req, res) => res.json([]));
+cities.get("/:country/:name", (req, _res, next) =>
+  next(AppError.notFound(`No ${req.params.name}`))
+);
+
+const admin = Router();
+admin.get("/", (_req, res) => res.json({}));
+
+const app = express();
+app.use(httpMetrics);
+app.use("/metrics", metricsRouter);
+app.use("/api/v1/cities", cities);
+app.use("/api/v1/admin", admin);
+app.use(errorHandler);
+
+type Label = "method" | "route" | "status";
+
+const count = async (labels: Partial<Record<Label, string>>) => {
+  const { values } = await httpRequestDuration.get();
+  return values
+    .filter(
+      (v) =>
+        v.metricName === "http_request_duration_seconds_count" &&
+        Object.entries(labels).every(([k, l]) => v.labels[k as Label] === l)
+    )
+    .reduce((n, v) => n + v.value, 0);
+};
+
+describe("HTTP metrics", () => {
+  beforeEach(() => httpRequestDuration.reset());
+
+  it("labels requests by route template, not raw path", async () => {
+    await request(app).get("/api/v1/cities/PL/Krakow").expect(404);
+    await request(app).get("/api/v1/cities/DE/Essen").expect(404);
+
+    expect(
+      await count({ route: "/api/v1/cities/:country/:name", status: "404" })
+    ).toBe(2);
+  });
+
+  it("keeps same-path routes of different routers apart", async () => {
+    await request(app).get("/api/v1/cities").expect(200);
+    await request(app).get("/api/v1/admin").expect(200);
+
+    expect(await count({ route: "/api/v1/cities" })).toBe(1);
+    expect(await count({ route: "/api/v1/admin" })).toBe(1);
+  });
+
+  it("groups requests that matched no route", async () => {
+    await request(app).get("/nope/123").expect(404);
+    expect(await count({ route: "unmatched" })).toBe(1);
+  });
+
+  it("serves the registry in Prometheus text format", async () => {
+    await request(app).get("/api/v1/cities").expect(200);
+    const res = await request(app).get("/metrics").expect(200);
+
+    expect(res.type).toBe(metricsRegistry.contentType.split(";")[0]);
+    expect(res.text).toMatch(
+      /http_request_duration_seconds_count\{method="GET",route="\/api\/v1\/cities",status="200"\} 1/
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import express from "express";
+import request from "supertest";
+import { requestId } from "../../src/middlewares/requestId.middleware";
+import { currentRequestId } from "../../src/utils/requestContext";
+
+const app = express();
+app.use(requestId);
+app.get("/", async (_req, res) => {
+  await new Promise((r) => setTimeout(r, 1));
+  res.json({ seen: currentRequestId() });
+});
+
+describe("requestId middleware", () => {
+  it("assigns an id visible to everything the request awaits", async () => {
+    const res = await request(app).get("/").expect(200);
+
+    expect(res.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.body.seen).toBe(res.headers["x-request-id"]);
+  });
+
+  it("propagates a caller's id", async () => {
+    const res = await request(app)
+      .get("/")
+      .set("X-Request-Id", "edge-42.abc")
+      .expect(200);
+
+    expect(res.headers["x-request-id"]).toBe("edge-42.abc");
+    expect(res.body.seen).toBe("edge-42.abc");
+  });
+
+  it("replaces ids that are not log-safe", async () => {
+    const res = await request(app)
+      .get("/")
+      .set("X-Request-Id", 'bad"id')
+      .expect(200);
+
+    expect(res.headers["x-request-id"]).not.toBe('bad"id');
+    expect(res.body.seen).toBe(res.headers["x-request-id"]);
+  });
+});
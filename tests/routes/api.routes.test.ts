@@ -0,0 +1,60 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { testApp } from "../helpers/app";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+
+const apiClients = [{ name: "app", key: "k-app", limit: 2, windowMs: 60_000 }];
+const adminClients = [{ name: "ops", key: "adm1n", limit: 1, windowMs: 1000 }];
+
+describe("API route wiring", () => {
+  let app: ReturnType<typeof testApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    const pollu = new FakePollu({ PL: towns(4) });
+    const wiki = new FakeWiki();
+    const service = new CityService(pollu.asClient(), wiki.asClient());
+    app = testApp(service, { apiClients, adminClients });
+  });
+
+  it("puts city and country routes behind API keys", async () => {
+    await request(app).get("/api/v1/cities?country=PL").expect(401);
+    await request(app).get("/api/v1/countries").expect(401);
+    await request(app)
+      .get("/api/v1/cities/search?q=ka")
+      .set("X-Admin-Key", "adm1n")
+      .expect(401);
+
+    const res = await request(app)
+      .get("/api/v1/cities?country=PL")
+      .set("X-API-Key", "k-app")
+      .expect(200);
+    expect(res.headers["ratelimit-remaining"]).toBe("1");
+  });
+
+  it("meters city and country routes separately", async () => {
+    const call = (path: string) =>
+      request(app).get(path).set("X-API-Key", "k-app");
+
+    await call("/api/v1/cities?country=PL").expect(200);
+    await call("/api/v1/cities/PL/Kakaka").expect(200);
+    await call("/api/v1/cities/nearby?lat=0&lon=0").expect(429);
+    await call("/api/v1/countries").expect(200);
+  });
+
+  it("takes only admin keys on the admin API", async () => {
+    await request(app)
+      .get("/api/v1/admin/cache")
+      .set("X-API-Key", "k-app")
+      .expect(401);
+    await request(app)
+      .get("/api/v1/admin/cache")
+      .set("X-Admin-Key", "adm1n")
+      .expect(200);
+  });
+
+  it("answers unknown paths with 404", async () => {
+    await request(app).get("/api/v1/towns").expect(404);
+  });
+});
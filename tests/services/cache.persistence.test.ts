@@ -0,0 +1,64 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cacheService } from "../../src/services/cache.service";
+import {
+  CACHE_SNAPSHOT_VERSION,
+  loadCacheSnapshot,
+  saveCacheSnapshot,
+} from "../../src/services/cache.persistence";
+
+const summary = { title: "Kraków", description: "City in Poland" };
+
+describe("cache snapshots", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    dir = await mkdtemp(join(tmpdir(), "cache-snapshot-"));
+    file = join(dir, "nested", "cache.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("restores live entries on a warm start", async () => {
+    await cacheService.setWikiSummary("Kraków", summary as any);
+    await cacheService.setPollutionPage("PL", 1, 50, { results: [] });
+
+    expect(await saveCacheSnapshot(file)).toBe(2);
+    await cacheService.clearCache();
+
+    expect(await loadCacheSnapshot(file)).toBe(2);
+    expect(await cacheService.getWikiSummary("Kraków")).toEqual(summary);
+    expect(await cacheService.getPollutionPage("PL", 1, 50)).toEqual({
+      results: [],
+    });
+  });
+
+  it("drops entries that expired while the service was down", async () => {
+    await cacheService.setWikiSummary("Kraków", summary as any, "en", 50);
+    await saveCacheSnapshot(file);
+    await cacheService.clearCache();
+    await new Promise((r) => setTimeout(r, 80));
+
+    expect(await loadCacheSnapshot(file)).toBe(0);
+  });
+
+  it("ignores missing, corrupt and foreign-version snapshots", async () => {
+    expect(await loadCacheSnapshot(join(dir, "missing.json"))).toBe(0);
+
+    await saveCacheSnapshot(file);
+    const saved = JSON.parse(await readFile(file, "utf8"));
+    await writeFile(
+      file,
+      JSON.stringify({ ...saved, version: CACHE_SNAPSHOT_VERSION - 1 })
+    );
+    expect(await loadCacheSnapshot(file)).toBe(0);
+
+    await writeFile(file, "{ not json");
+    expect(await loadCacheSnapshot(file)).toBe(0);
+  });
+});
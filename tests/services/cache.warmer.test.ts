@@ -0,0 +1,100 @@
+import { CacheWarmer } from "../../src/services/cache.warmer";
+import {
+  cacheService,
+  CountryCacheData,
+} from "../../src/services/cache.service";
+import type { CityService } from "../../src/services/city.service";
+import { CACHE_CONFIG, WARMER_CONFIG } from "../../src/utils/constants";
+
+const entry = (timestamp: number): CountryCacheData => ({
+  cities: [],
+  lastPage: 1,
+  totalPages: 1,
+  timestamp,
+  isComplete: true,
+});
+
+describe("CacheWarmer", () => {
+  let refreshCountry: jest.Mock;
+  let warmer: CacheWarmer;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    await cacheService.clearCache();
+    refreshCountry = jest.fn(async (country: string) => {
+      await cacheService.setCountryCache(country, entry(Date.now()));
+      return { cities: 3, isComplete: true };
+    });
+    warmer = new CacheWarmer({ refreshCountry } as unknown as CityService);
+  });
+
+  afterEach(async () => {
+    await warmer.stop();
+    jest.useRealTimers();
+  });
+
+  it("fills missing countries one per tick, in registry order", async () => {
+    warmer.start();
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.INITIAL_DELAY_MS);
+    expect(refreshCountry.mock.calls.map((c) => c[0])).toEqual(["PL"]);
+
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.TICK_MS);
+    expect(refreshCountry.mock.calls.map((c) => c[0])).toEqual(["PL", "DE"]);
+
+    const pl = warmer.getStatus().countries.find((c) => c.country === "PL");
+    expect(pl).toMatchObject({
+      outcome: "success",
+      cities: 3,
+      isComplete: true,
+      error: null,
+    });
+  });
+
+  it("refreshes the oldest country once it passes the threshold", async () => {
+    const threshold = CACHE_CONFIG.COUNTRY_TTL * WARMER_CONFIG.REFRESH_AFTER;
+    for (const country of ["PL", "DE", "ES", "FR"]) {
+      await cacheService.setCountryCache(country, entry(Date.now()));
+    }
+    await cacheService.setCountryCache("ES", entry(Date.now() - threshold));
+    await cacheService.setCountryCache(
+      "FR",
+      entry(Date.now() - threshold - 1000)
+    );
+
+    warmer.start();
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.INITIAL_DELAY_MS);
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.TICK_MS);
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.TICK_MS);
+
+    expect(refreshCountry.mock.calls.map((c) => c[0])).toEqual(["FR", "ES"]);
+  });
+
+  it("paces upstream pages and aborts a refresh when stopped", async () => {
+    const pages: number[] = [];
+    refreshCountry.mockImplementation(
+      async (_country: string, beforePage: () => Promise<void>) => {
+        for (;;) {
+          await beforePage();
+          pages.push(Date.now());
+        }
+      }
+    );
+
+    warmer.start();
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.INITIAL_DELAY_MS);
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.MIN_PAGE_GAP_MS * 2);
+    expect(pages).toHaveLength(3);
+    expect(pages[1] - pages[0]).toBe(WARMER_CONFIG.MIN_PAGE_GAP_MS);
+
+    const stopped = warmer.stop();
+    await jest.advanceTimersByTimeAsync(WARMER_CONFIG.MIN_PAGE_GAP_MS);
+    await stopped;
+
+    expect(warmer.getStatus()).toMatchObject({ running: false });
+    expect(warmer.getStatus().countries[0]).toMatchObject({
+      outcome: "error",
+      error: "Warmer stopped",
+    });
+    expect(pages).toHaveLength(3);
+  });
+});
@@ -0,0 +1,104 @@
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { decodeCursor } from "../../src/utils/cursor";
+import { FakePollu, FakeWiki, Row, towns } from "../helpers/fakes";
+import { PL } from "../helpers/countries";
+
+const names = (page: { cities: { city: string }[] }) =>
+  page.cities.map((c) => c.city);
+
+describe("CityService cursor pagination", () => {
+  let pollu: FakePollu;
+  let service: CityService;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    pollu = new FakePollu({ PL: towns(12) });
+    service = new CityService(pollu.asClient(), new FakeWiki().asClient());
+  });
+
+  it("walks every city exactly once, in ranking order", async () => {
+    const seen: string[] = [];
+    let page = await service.getMostPollutedByCursor([PL], 4, null);
+    seen.push(...names(page));
+
+    while (page.nextCursor) {
+      page = await service.getMostPollutedByCursor(
+        [PL],
+        4,
+        decodeCursor(page.nextCursor)
+      );
+      seen.push(...names(page));
+    }
+
+    expect(seen).toEqual(towns(12).map((t) => t.name));
+    expect(page.hasMore).toBe(false);
+    expect(page.isComplete).toBe(true);
+  });
+
+  it("keeps a client's position when the country cache is rebuilt", async () => {
+    const first = await service.getMostPollutedByCursor([PL], 4, null);
+
+    // Upstream reshuffles and the cache is rebuilt from scratch
+    pollu.rows.PL = [...towns(12)].reverse();
+    await service.refreshCountry(PL);
+
+    const second = await service.getMostPollutedByCursor(
+      [PL],
+      4,
+      decodeCursor(first.nextCursor!)
+    );
+    expect(names(second)).toEqual(
+      towns(12)
+        .slice(4, 8)
+        .map((t) => t.name)
+    );
+  });
+
+  it("ranks late cities after the served head, never before it", async () => {
+    const rows: Row[] = towns(10).map((t, i) => ({
+      name: t.name,
+      pollution: [100, 90, 80, 70, 60, 95, 50, 40, 30, 20][i],
+    }));
+    pollu.rows.PL = rows;
+
+    const first = await service.getMostPollutedByCursor([PL], 3, null);
+    expect(first.cities.map((c) => c.pollution)).toEqual([100, 90, 80]);
+
+    // The next page needs the second upstream page, which holds a 95
+    const second = await service.getMostPollutedByCursor(
+      [PL],
+      3,
+      decodeCursor(first.nextCursor!)
+    );
+    expect(second.cities.map((c) => c.pollution)).toEqual([95, 70, 60]);
+  });
+
+  it("shares one snapshot between page requests over the same ranking", async () => {
+    const setSnapshot = jest.spyOn(cacheService, "setCitySnapshot");
+
+    const a = await service.getMostPollutedByCountry([PL], 4, 1);
+    const b = await service.getMostPollutedByCountry([PL], 4, 1);
+
+    expect(a.nextCursor).toBe(b.nextCursor);
+    expect(setSnapshot).toHaveBeenCalledTimes(1);
+
+    const c = await service.getMostPollutedByCountry([PL], 4, 2);
+    const d = await service.getMostPollutedByCountry([PL], 4, 2);
+    expect(c.nextCursor).toBe(d.nextCursor);
+    expect(setSnapshot).toHaveBeenCalledTimes(2);
+
+    // Page cursors continue where the page left off
+    const next = await service.getMostPollutedByCursor(
+      [PL],
+      4,
+      decodeCursor(c.nextCursor!)
+    );
+    expect(names(next)).toEqual(
+      towns(12)
+        .slice(8, 12)
+        .map((t) => t.name)
+    );
+    setSnapshot.mockRestore();
+  });
+});
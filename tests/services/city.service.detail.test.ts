@@ -0,0 +1,80 @@
+import request from "supertest";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityApp } from "../helpers/app";
+import { FakePollu, FakeWiki } from "../helpers/fakes";
+import { PL } from "../helpers/countries";
+
+const rows = [
+  { name: "Kraków", pollution: 90 },
+  { name: "Łódź", pollution: 80 },
+  { name: "Warszawa", pollution: 70 },
+  { name: "Gdańsk", pollution: 60 },
+  { name: "Poznań", pollution: 50 },
+  { name: "Wrocław", pollution: 40 },
+  { name: "Lublin", pollution: 30 },
+];
+
+describe("GET /cities/:country/:name", () => {
+  let pollu: FakePollu;
+  let service: CityService;
+  let app: ReturnType<typeof cityApp>;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    pollu = new FakePollu({ PL: rows });
+    service = new CityService(pollu.asClient(), new FakeWiki().asClient());
+    app = cityApp(service);
+  });
+
+  it("returns the city with its rank in the complete ranking", async () => {
+    const res = await request(app)
+      .get("/api/v1/cities/PL/Wroc%C5%82aw")
+      .expect(200);
+
+    expect(res.body).toMatchObject({
+      name: "Wrocław",
+      country: "Poland",
+      pollution: 40,
+      rank: 6,
+      totalRanked: 7,
+      description: "Wrocław is a city.",
+      classification: { verdict: "keep" },
+    });
+    // Ranks need every upstream page, not just the first
+    expect(pollu.calls.map((c) => c.page)).toEqual([1, 2]);
+  });
+
+  it("answers from a partial cache when the rank is final", async () => {
+    await service.getMostPollutedByCountry([PL], 2, 1);
+    expect(pollu.calls.map((c) => c.page)).toEqual([1]);
+
+    const res = await request(app).get("/api/v1/cities/PL/Lodz").expect(200);
+    expect(res.body).toMatchObject({ name: "Łódź", rank: 2 });
+    expect(res.body.totalRanked).toBeNull();
+    expect(pollu.calls.map((c) => c.page)).toEqual([1]);
+
+    // The last cached city could still tie with one on a later page
+    const last = await request(app).get("/api/v1/cities/PL/Poznan");
+    expect(last.body).toMatchObject({ rank: 5, totalRanked: 7 });
+    expect(pollu.calls.map((c) => c.page)).toEqual([1, 2]);
+  });
+
+  it("matches names case- and diacritic-insensitively", async () => {
+    for (const name of ["lodz", "LODZ", "Łódź", "łódź"]) {
+      const res = await request(app)
+        .get(`/api/v1/cities/pl/${encodeURIComponent(name)}`)
+        .expect(200);
+      expect(res.body).toMatchObject({ name: "Łódź", rank: 2 });
+    }
+  });
+
+  it("answers 404 for unknown cities and 400 for unknown countries", async () => {
+    const missing = await request(app)
+      .get("/api/v1/cities/PL/Atlantis")
+      .expect(404);
+    expect(missing.body.message).toBe('City "Atlantis" not found in Poland');
+
+    await request(app).get("/api/v1/cities/XX/Krakow").expect(400);
+  });
+});
@@ -0,0 +1,48 @@
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { CircuitOpenError } from "../../src/errors/CircuitOpenError";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+import { PL } from "../helpers/countries";
+
+describe("CityService stale fallback", () => {
+  let pollu: FakePollu;
+  let service: CityService;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    pollu = new FakePollu({ PL: towns(12) });
+    service = new CityService(pollu.asClient(), new FakeWiki().asClient());
+  });
+
+  it("serves the cities gathered so far when upstream fails", async () => {
+    await service.getMostPollutedByCountry([PL], 5, 1);
+    pollu.failure = new CircuitOpenError("pollution", Date.now() + 1000);
+
+    const page = await service.getMostPollutedByCountry([PL], 8, 1);
+    expect(page.cities).toHaveLength(5);
+    expect(page).toMatchObject({ stale: true, isComplete: false });
+  });
+
+  it("serves an expired country entry while upstream is down", async () => {
+    await service.getMostPollutedByCountry([PL], 5, 1);
+    const cached = (await cacheService.getCountryCache("PL"))!;
+    // Expire it; the store keeps it around for the fallback
+    await cacheService.setCountryCache("PL", cached, 1);
+    await new Promise((r) => setTimeout(r, 5));
+
+    pollu.failure = new CircuitOpenError("pollution", Date.now() + 1000);
+    const page = await service.getMostPollutedByCountry([PL], 3, 1);
+
+    expect(page.cities.map((c) => c.city)).toEqual(
+      towns(3).map((t) => t.name)
+    );
+    expect(page.stale).toBe(true);
+  });
+
+  it("passes the upstream error on when nothing is cached", async () => {
+    pollu.failure = new CircuitOpenError("pollution", Date.now() + 1000);
+    await expect(
+      service.getMostPollutedByCountry([PL], 3, 1)
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+});
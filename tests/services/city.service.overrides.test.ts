@@ -0,0 +1,84 @@
+import { WikipediaClient } from "../../src/external/wikipedia.client";
+import type { WikidataClient } from "../../src/external/wikidata.client";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { cityOverrides } from "../../src/services/city.overrides";
+import { FakePollu } from "../helpers/fakes";
+import { PL } from "../helpers/countries";
+
+// Every queried title is an article about a city
+const cityPages = async (titles: string[]) => ({
+  normalized: [],
+  redirects: [],
+  pagesByTitle: new Map(
+    titles.map((title, i) => [
+      title,
+      {
+        ns: 0,
+        title,
+        extract: `${title} is a city in Poland.`,
+        categories: [],
+        pageprops: { wikibase_item: `Q${i + 1}` },
+      },
+    ])
+  ),
+  failed: new Set<string>(),
+});
+
+const wikidata = {
+  checkItems: async (ids: string[]) =>
+    new Map(
+      ids.map((item) => [item, { item, ok: true, reason: "city", facts: null }])
+    ),
+} as unknown as WikidataClient;
+
+describe("city overrides in Wikipedia lookups", () => {
+  let queried: jest.Mock;
+  let service: CityService;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    const wiki = new WikipediaClient(wikidata);
+    queried = jest.fn(cityPages);
+    (wiki as any).fetchOrFail = queried;
+
+    const pollu = new FakePollu({ PL: [{ name: "Sosnica", pollution: 90 }] });
+    service = new CityService(pollu.asClient(), wiki);
+  });
+
+  afterEach(() => cityOverrides.remove(PL, "Sosnica"));
+
+  it("queries the pinned title of a renamed city", async () => {
+    await cityOverrides.set(PL, "Sosnica", {
+      displayName: "Gliwice Sosnica",
+      wikiTitle: "Sośnica, Gliwice",
+    });
+
+    const { cities } = await service.getMostPollutedByCountry([PL], 1, 1);
+
+    expect(queried.mock.calls.map(([titles]) => titles)).toEqual([
+      ["Sośnica, Gliwice"],
+    ]);
+    expect(cities[0]).toMatchObject({
+      city: "Gliwice Sosnica",
+      description: "Sośnica, Gliwice is a city in Poland.",
+    });
+  });
+
+  it("explains the pinned lookup too", async () => {
+    await cityOverrides.set(PL, "Sosnica", {
+      displayName: "Gliwice Sosnica",
+      wikiTitle: "Sośnica, Gliwice",
+    });
+
+    const { rows } = await service.explainCities(PL);
+
+    expect(rows[0]).toMatchObject({
+      outcome: "included",
+      wikipedia: {
+        title: "Gliwice_Sosnica",
+        attempts: [{ query: "Sośnica, Gliwice", reason: "intro-cityish" }],
+      },
+    });
+  });
+});
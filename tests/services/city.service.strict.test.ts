@@ -0,0 +1,77 @@
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { decodeCursor } from "../../src/utils/cursor";
+import { FakePollu, FakeWiki, Row, towns } from "../helpers/fakes";
+import { PL } from "../helpers/countries";
+
+// Upstream pages are not globally sorted: page 3 holds the top city
+const rows: Row[] = towns(15).map((t, i) => ({
+  name: t.name,
+  pollution: i === 12 ? 500 : 100 - i,
+}));
+
+describe("CityService strict ranking", () => {
+  let pollu: FakePollu;
+  let service: CityService;
+
+  beforeEach(async () => {
+    await cacheService.clearCache();
+    pollu = new FakePollu({ PL: rows });
+    service = new CityService(pollu.asClient(), new FakeWiki().asClient());
+  });
+
+  it("pulls every upstream page before ranking", async () => {
+    const page = await service.getMostPollutedByCountry([PL], 3, 1, {
+      consistency: "strict",
+    });
+
+    expect(pollu.calls.map((c) => c.page)).toEqual([1, 2, 3]);
+    expect(page.cities.map((c) => c.pollution)).toEqual([500, 100, 99]);
+    expect(page.isComplete).toBe(true);
+  });
+
+  it("fast mode stops once the page is filled", async () => {
+    const page = await service.getMostPollutedByCountry([PL], 3, 1);
+
+    expect(pollu.calls.map((c) => c.page)).toEqual([1]);
+    expect(page.cities.map((c) => c.pollution)).toEqual([100, 99, 98]);
+    expect(page.isComplete).toBe(false);
+  });
+
+  it("does not continue a partial snapshot in strict mode", async () => {
+    const fast = await service.getMostPollutedByCursor([PL], 3, null);
+    expect(fast.isComplete).toBe(false);
+
+    const strict = await service.getMostPollutedByCursor(
+      [PL],
+      3,
+      decodeCursor(fast.nextCursor!),
+      { consistency: "strict" }
+    );
+
+    // Resumes after the last city served (98), over the complete ranking
+    expect(strict.cities.map((c) => c.pollution)).toEqual([97, 96, 95]);
+    expect(strict.isComplete).toBe(true);
+    expect(decodeCursor(strict.nextCursor!)!.snapshotId).not.toBe(
+      decodeCursor(fast.nextCursor!)!.snapshotId
+    );
+  });
+
+  it("keeps using a complete snapshot in strict mode", async () => {
+    const first = await service.getMostPollutedByCursor([PL], 3, null, {
+      consistency: "strict",
+    });
+    const next = await service.getMostPollutedByCursor(
+      [PL],
+      3,
+      decodeCursor(first.nextCursor!),
+      { consistency: "strict" }
+    );
+
+    expect(first.cities.map((c) => c.pollution)).toEqual([500, 100, 99]);
+    expect(next.cities.map((c) => c.pollution)).toEqual([98, 97, 96]);
+    expect(decodeCursor(next.nextCursor!)!.snapshotId).toBe(
+      decodeCursor(first.nextCursor!)!.snapshotId
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PollutionHistory } from "../../src/services/pollution.history";
+import { PL, DE } from "../helpers/countries";
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.parse("2026-10-01T00:00:00Z");
+
+const line = (at: number, cities: Array<[string, number]>) =>
+  JSON.stringify({ v: 1, country: "PL", at, cities }) + "\n";
+
+describe("PollutionHistory", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "pollution-history-"));
+    file = join(dir, "history.ndjson");
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it("records snapshots and serves series and changes", async () => {
+    const history = new PollutionHistory("", 90, 100);
+    await history.record(PL, [{ city: "Kraków", pollution: 40 }], T0);
+    await history.record(
+      PL,
+      [
+        { city: "Kraków", pollution: 55 },
+        { city: "Opole", pollution: 20 },
+      ],
+      T0 + DAY
+    );
+
+    expect(history.series(PL, "krakow", 0, Infinity)).toEqual({
+      city: "Kraków",
+      points: [
+        { at: new Date(T0).toISOString(), pollution: 40 },
+        { at: new Date(T0 + DAY).toISOString(), pollution: 55 },
+      ],
+    });
+    expect(history.series(PL, "Opole", T0, T0)?.points).toEqual([]);
+    expect(history.series(DE, "Kraków", 0, Infinity)).toBeNull();
+
+    expect(history.changes(PL, { limit: 5 })).toMatchObject({
+      compared: 1,
+      risers: [{ name: "Kraków", before: 40, after: 55, change: 15 }],
+      fallers: [],
+    });
+  });
+
+  it("loads the file on demand, skipping torn lines", async () => {
+    await writeFile(
+      file,
+      line(T0, [["Opole", 20]]) +
+        line(T0 + DAY, [["Opole", 25]]) +
+        '{"v":1,"country":"PL","at":'
+    );
+
+    const history = new PollutionHistory(file, 90, 100);
+    expect(history.summary(PL).snapshots).toBe(0);
+
+    await history.load();
+    expect(history.summary(PL)).toEqual({
+      snapshots: 2,
+      lastRecordedAt: new Date(T0 + DAY).toISOString(),
+    });
+  });
+
+  it("starts empty without a file", async () => {
+    const history = new PollutionHistory(join(dir, "none"), 90, 100);
+    await history.load();
+    expect(history.summary(PL).snapshots).toBe(0);
+  });
+
+  it("holds at most maxSnapshots per country, newest kept", async () => {
+    await writeFile(
+      file,
+      [1, 2, 3].map((day) => line(T0 + day * DAY, [["Opole", day]])).join("")
+    );
+    const history = new PollutionHistory(file, 90, 2);
+    await history.load();
+
+    const values = () =>
+      history
+        .series(PL, "Opole", 0, Infinity)!
+        .points.map((p) => p.pollution);
+    expect(values()).toEqual([2, 3]);
+
+    await history.record(
+      PL,
+      [{ city: "Opole", pollution: 4 }],
+      T0 + 4 * DAY
+    );
+    expect(values()).toEqual([3, 4]);
+    expect(history.summary(DE).snapshots).toBe(0);
+
+    // The file keeps everything until pruning rewrites it
+    const lines = async () => (await readFile(file, "utf8")).trim().split("\n");
+    expect(await lines()).toHaveLength(4);
+    expect(await history.prune(T0 + 4 * DAY)).toBe(0);
+    expect(await lines()).toHaveLength(2);
+  });
+
+  it("prunes snapshots past the retention period", async () => {
+    const history = new PollutionHistory(file, 30, 100);
+    await history.record(PL, [{ city: "Opole", pollution: 1 }], T0);
+    await history.record(
+      PL,
+      [{ city: "Opole", pollution: 2 }],
+      T0 + 40 * DAY
+    );
+
+    expect(await history.prune(T0 + 41 * DAY)).toBe(1);
+    expect(history.summary(PL).snapshots).toBe(1);
+    expect(await readFile(file, "utf8")).toBe(
+      line(T0 + 40 * DAY, [["Opole", 2]])
+    );
+  });
+});
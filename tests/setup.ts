@@ -0,0 +1,16 @@
+// Runs before every test file: keep modules that read the environment at
+// import time away from local files, Redis and the background warmer
+Object.assign(process.env, {
+  NODE_ENV: "test",
+  LOG_LEVEL: "error",
+  CACHE_BACKEND: "memory",
+  CACHE_SNAPSHOT_FILE: "",
+  COUNTRIES_FILE: "",
+  CLASSIFICATION_RULES_FILE: "",
+  CITY_OVERRIDES_FILE: "",
+  HISTORY_FILE: "",
+  WARMER_ENABLED: "false",
+  API_KEYS: "",
+  API_KEYS_FILE: "",
+  ADMIN_API_KEYS: "",
+});
@@ -0,0 +1,91 @@
+import { CircuitBreaker } from "../../src/utils/circuitBreaker";
+import { CircuitOpenError } from "../../src/errors/CircuitOpenError";
+
+const ok = () => Promise.resolve("ok");
+const boom = () => Promise.reject(new Error("boom"));
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    breaker = new CircuitBreaker("pollution", {
+      failureThreshold: 3,
+      resetTimeoutMs: 1000,
+      halfOpenMaxCalls: 1,
+    });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  const fail = async (times: number) => {
+    for (let i = 0; i < times; i++) {
+      await expect(breaker.exec(boom)).rejects.toThrow("boom");
+    }
+  };
+
+  it("opens after consecutive failures and then fails fast", async () => {
+    await fail(2);
+    expect(breaker.getStatus().state).toBe("closed");
+
+    await fail(1);
+    expect(breaker.getStatus()).toMatchObject({
+      state: "open",
+      consecutiveFailures: 3,
+      lastFailure: "boom",
+      retryAt: new Date(1000).toISOString(),
+    });
+
+    const fn = jest.fn(ok);
+    const error = await breaker.exec(fn).catch((e) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ statusCode: 503, retryAt: 1000 });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("resets the failure count on success", async () => {
+    await fail(2);
+    await breaker.exec(ok);
+    await fail(2);
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+
+  it("closes again after a successful trial call", async () => {
+    await fail(3);
+    jest.setSystemTime(1000);
+    expect(breaker.getStatus().state).toBe("half-open");
+
+    await expect(breaker.exec(ok)).resolves.toBe("ok");
+    expect(breaker.getStatus()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+    });
+  });
+
+  it("re-opens when the trial call fails", async () => {
+    await fail(3);
+    jest.setSystemTime(1500);
+
+    await fail(1);
+    expect(breaker.getStatus()).toMatchObject({
+      state: "open",
+      retryAt: new Date(2500).toISOString(),
+    });
+  });
+
+  it("lets only halfOpenMaxCalls trial calls through at once", async () => {
+    await fail(3);
+    jest.setSystemTime(1000);
+
+    let finish!: () => void;
+    const trial = breaker.exec(
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+    expect(breaker.isOpen()).toBe(true);
+    await expect(breaker.exec(ok)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finish();
+    await trial;
+    expect(breaker.isOpen()).toBe(false);
+  });
+});
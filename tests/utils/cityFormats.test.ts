@@ -0,0 +1,75 @@
+import {
+  CityRow,
+  toCsv,
+  toGeoJson,
+  toNdjson,
+} from "../../src/utils/cityFormats";
+
+const row = (overrides: Partial<CityRow> = {}): CityRow => ({
+  name: "Kraków",
+  country: "Poland",
+  pollution: 90,
+  description: "City in Poland",
+  descriptionLang: "en",
+  population: 800000,
+  officialName: "Kraków",
+  lat: 50.06,
+  lon: 19.94,
+  ...overrides,
+});
+
+describe("toCsv", () => {
+  it("writes a header and CRLF-terminated rows", () => {
+    expect(toCsv([row()])).toBe(
+      "name,country,pollution,description,descriptionLang,population," +
+        "officialName,lat,lon\r\n" +
+        "Kraków,Poland,90,City in Poland,en,800000,Kraków,50.06,19.94\r\n"
+    );
+  });
+
+  it("quotes fields that need it and leaves nulls empty", () => {
+    const [, line] = toCsv([
+      row({
+        description: 'The "royal" city, on the Vistula\nsince 1038',
+        population: null,
+        lat: null,
+        lon: null,
+      }),
+    ]).split("\r\n");
+
+    expect(line).toBe(
+      'Kraków,Poland,90,"The ""royal"" city, on the Vistula\nsince 1038"' +
+        ",en,,Kraków,,"
+    );
+  });
+});
+
+describe("toNdjson", () => {
+  it("writes one JSON document per line", () => {
+    const lines = toNdjson([row(), row({ name: "Łódź" })]).split("\n");
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[1]).name).toBe("Łódź");
+    expect(lines[2]).toBe("");
+  });
+});
+
+describe("toGeoJson", () => {
+  it("builds lon/lat points and keeps unlocated cities", () => {
+    const collection = toGeoJson([row(), row({ lat: null, lon: null })], {
+      hasMore: false,
+    });
+
+    expect(collection).toMatchObject({
+      type: "FeatureCollection",
+      hasMore: false,
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [19.94, 50.06] },
+          properties: { name: "Kraków" },
+        },
+        { type: "Feature", geometry: null },
+      ],
+    });
+  });
+});
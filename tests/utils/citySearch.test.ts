@@ -0,0 +1,39 @@
+import { matchCity, searchKey } from "../../src/utils/citySearch";
+
+describe("searchKey", () => {
+  it("folds case and diacritics", () => {
+    expect(searchKey("Łódź", "PL")).toBe("lodz");
+    expect(searchKey("LODZ", "PL")).toBe("lodz");
+    expect(searchKey("München", "DE")).toBe("munchen");
+    expect(searchKey("Gießen", "DE")).toBe("giessen");
+    expect(searchKey("Bielsko-Biała", "PL")).toBe("bielsko-biala");
+  });
+});
+
+describe("matchCity", () => {
+  const match = (query: string, name: string) =>
+    matchCity(searchKey(query), searchKey(name));
+
+  it("grades matches from exact to substring", () => {
+    expect(match("lodz", "Łódź")).toEqual({ kind: "exact", distance: 0 });
+    expect(match("kra", "Kraków")).toEqual({ kind: "prefix", distance: 0 });
+    expect(match("biala", "Bielsko-Biała")).toEqual({
+      kind: "word-prefix",
+      distance: 0,
+    });
+    expect(match("akow", "Kraków")).toEqual({
+      kind: "substring",
+      distance: 0,
+    });
+  });
+
+  it("tolerates typos in longer queries only", () => {
+    expect(match("krkaow", "Kraków")).toEqual({ kind: "fuzzy", distance: 1 });
+    expect(match("warszwa", "Warszawa")).toEqual({
+      kind: "fuzzy",
+      distance: 1,
+    });
+    expect(match("kro", "Kraków")).toBeNull();
+    expect(match("gdynia", "Kraków")).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { createServer, get, Server } from "http";
+import { AddressInfo } from "net";
+import { closeServer } from "../../src/utils/closeServer";
+
+const listen = (server: Server) =>
+  new Promise<number>((resolve) =>
+    server.listen(0, () => resolve((server.address() as AddressInfo).port))
+  );
+
+describe("closeServer", () => {
+  it("waits for in-flight requests to finish", async () => {
+    const server = createServer((_req, res) => {
+      setTimeout(() => res.end("done"), 100);
+    });
+    const port = await listen(server);
+
+    const body = new Promise<string>((resolve, reject) =>
+      get(`http://127.0.0.1:${port}`, (res) => {
+        let text = "";
+        res.on("data", (chunk) => (text += chunk));
+        res.on("end", () => resolve(text));
+      }).on("error", reject)
+    );
+    await new Promise((r) => setTimeout(r, 20));
+
+    await expect(closeServer(server, 5000)).resolves.toBe(true);
+    await expect(body).resolves.toBe("done");
+    expect(server.listening).toBe(false);
+  });
+
+  it("gives up on requests that outlive the timeout", async () => {
+    const server = createServer(() => {
+      // never answers
+    });
+    const port = await listen(server);
+
+    const failed = new Promise<Error>((resolve) =>
+      get(`http://127.0.0.1:${port}`).on("error", resolve)
+    );
+    await new Promise((r) => setTimeout(r, 20));
+
+    await expect(closeServer(server, 50)).resolves.toBe(false);
+    expect((await failed).message).toMatch(/socket hang up|ECONNRESET/);
+  });
+
+  it("resolves at once for a server that is not listening", async () => {
+    await expect(closeServer(createServer(), 5000)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  cursorMatches,
+  decodeCursor,
+  encodeCursor,
+  CityCursor,
+} from "../../src/utils/cursor";
+import { PL, DE } from "../helpers/countries";
+
+const cursor: CityCursor = {
+  countries: [PL, DE],
+  view: { sort: "pollution_desc", minPollution: 10, maxPollution: null },
+  snapshotId: "snap-1",
+  offset: 20,
+  pollution: 42.5,
+  key: "krakow|PL",
+  name: "Kraków",
+};
+
+const reencode = (payload: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+
+describe("cursor", () => {
+  it("round-trips through its opaque form", () => {
+    const raw = encodeCursor(cursor);
+    expect(raw).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(raw)).toEqual(cursor);
+  });
+
+  it("rejects anything it did not issue", () => {
+    const payload = JSON.parse(
+      Buffer.from(encodeCursor(cursor), "base64url").toString("utf8")
+    );
+
+    expect(decodeCursor("not a cursor")).toBeNull();
+    expect(decodeCursor(reencode({ ...payload, v: 1 }))).toBeNull();
+    expect(decodeCursor(reencode({ ...payload, c: ["XX"] }))).toBeNull();
+    expect(decodeCursor(reencode({ ...payload, c: [] }))).toBeNull();
+    expect(
+      decodeCursor(reencode({ ...payload, f: ["random", null, null] }))
+    ).toBeNull();
+    expect(decodeCursor(reencode({ ...payload, o: -1 }))).toBeNull();
+    expect(decodeCursor(reencode({ ...payload, s: "" }))).toBeNull();
+  });
+
+  it("only continues the countries and view it was built for", () => {
+    expect(cursorMatches(cursor, [PL, DE], cursor.view)).toBe(true);
+    expect(cursorMatches(cursor, [DE, PL], cursor.view)).toBe(false);
+    expect(
+      cursorMatches(cursor, [PL, DE], { ...cursor.view, minPollution: 5 })
+    ).toBe(false);
+    expect(
+      cursorMatches(cursor, [PL, DE], { ...cursor.view, sort: "name" })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { Coordinates, distanceKm, GeoIndex } from "../../src/utils/geoIndex";
+
+const WARSAW = { lat: 52.2297, lon: 21.0122 };
+const KRAKOW = { lat: 50.0647, lon: 19.945 };
+
+// Deterministic spread of points (linear congruential generator)
+function points(count: number, seed = 7): Coordinates[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+  return Array.from({ length: count }, () => ({
+    lat: next() * 180 - 90,
+    lon: next() * 360 - 180,
+  }));
+}
+
+describe("GeoIndex", () => {
+  it("measures great-circle distances", () => {
+    expect(distanceKm(WARSAW, KRAKOW)).toBeCloseTo(252, 0);
+    expect(distanceKm(WARSAW, WARSAW)).toBe(0);
+  });
+
+  it("finds what a full scan finds, nearest first", () => {
+    const all = points(2000);
+    const index = new GeoIndex(all, (p) => p, 0.5);
+    const centers = [...points(20, 99), { lat: 89.5, lon: 0 }];
+
+    for (const center of centers) {
+      for (const radiusKm of [50, 500, 3000]) {
+        const found = index.within(center, radiusKm);
+        const expected = all.filter((p) => distanceKm(center, p) <= radiusKm);
+
+        expect(found.map((f) => f.item).sort(byPosition)).toEqual(
+          expected.sort(byPosition)
+        );
+        const distances = found.map((f) => f.distanceKm);
+        expect(distances).toEqual([...distances].sort((a, b) => a - b));
+      }
+    }
+  });
+
+  it("wraps around the antimeridian", () => {
+    const west = { lat: 0, lon: 179.9 };
+    const east = { lat: 0, lon: -179.9 };
+    const index = new GeoIndex([west, east], (p) => p);
+
+    expect(index.within(west, 50).map((f) => f.item)).toEqual([west, east]);
+  });
+
+  it("leaves out items without valid coordinates", () => {
+    const index = new GeoIndex(
+      [WARSAW, null, { lat: 91, lon: 0 }, { lat: NaN, lon: 0 }],
+      (p) => p
+    );
+    expect(index.size).toBe(1);
+  });
+});
+
+function byPosition(a: Coordinates, b: Coordinates) {
+  return a.lat - b.lat || a.lon - b.lon;
+}
@@ -0,0 +1,68 @@
+import { env } from "../../src/config/env";
+import { logger } from "../../src/utils/logger";
+import { runWithRequestId } from "../../src/utils/requestContext";
+
+describe("logger", () => {
+  const level = env.logLevel;
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const lines = (spy: jest.SpyInstance) =>
+    spy.mock.calls.map(([chunk]) => JSON.parse(String(chunk)));
+
+  beforeEach(() => {
+    env.logLevel = "info";
+    stdout = jest.spyOn(process.stdout, "write").mockReturnValue(true);
+    stderr = jest.spyOn(process.stderr, "write").mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    env.logLevel = level;
+    jest.restoreAllMocks();
+  });
+
+  it("writes one JSON object per line, warnings and errors to stderr", () => {
+    logger.info("Cache hit", { country: "PL" });
+    logger.warn("Slow upstream");
+
+    expect(lines(stdout)).toEqual([
+      {
+        time: expect.any(String),
+        level: "info",
+        msg: "Cache hit",
+        country: "PL",
+      },
+    ]);
+    expect(lines(stderr)).toEqual([
+      expect.objectContaining({ level: "warn", msg: "Slow upstream" }),
+    ]);
+  });
+
+  it("drops lines below LOG_LEVEL", () => {
+    logger.debug("noise");
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  it("tags lines with the current request id", async () => {
+    await runWithRequestId("req-1", async () => {
+      await Promise.resolve();
+      logger.info("inside");
+    });
+    logger.info("outside");
+
+    const [inside, outside] = lines(stdout);
+    expect(inside.requestId).toBe("req-1");
+    expect(outside).not.toHaveProperty("requestId");
+  });
+
+  it("serializes errors with name, message and stack", () => {
+    logger.error("Request failed", { error: new TypeError("bad input") });
+
+    const [line] = lines(stderr);
+    expect(line.error).toEqual({
+      name: "TypeError",
+      message: "bad input",
+      stack: expect.stringContaining("TypeError: bad input"),
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { toNameCase } from "../../src/utils/nameCase";
+
+describe("toNameCase", () => {
+  it("keeps the country's particles lower case inside a name", () => {
+    expect(toNameCase("CASTELLÓN DE LA PLANA", "ES")).toBe(
+      "Castellón de la Plana"
+    );
+    expect(toNameCase("boulogne-sur-mer", "FR")).toBe("Boulogne-sur-Mer");
+    expect(toNameCase("frankfurt am main", "DE")).toBe("Frankfurt am Main");
+  });
+
+  it("keeps a leading particle capitalized", () => {
+    expect(toNameCase("le havre", "FR")).toBe("Le Havre");
+    expect(toNameCase("la coruña", "ES")).toBe("La Coruña");
+  });
+
+  it("capitalizes every word without registry particles", () => {
+    expect(toNameCase("castellón de la plana", "es")).toBe(
+      "Castellón De La Plana"
+    );
+    expect(toNameCase("nowy dwór mazowiecki", "PL")).toBe(
+      "Nowy Dwór Mazowiecki"
+    );
+  });
+});
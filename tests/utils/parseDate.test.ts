@@ -0,0 +1,19 @@
+import { parseDate } from "../../src/utils/parseDate";
+
+describe("parseDate", () => {
+  it("reads ISO 8601 dates and date-times", () => {
+    expect(parseDate("2024-01-02")).toBe(Date.UTC(2024, 0, 2));
+    expect(parseDate("2024-01-02T10:30:00Z")).toBe(
+      Date.UTC(2024, 0, 2, 10, 30)
+    );
+    expect(parseDate("2024-01-02T10:30:00.250+02:00")).toBe(
+      Date.UTC(2024, 0, 2, 8, 30, 0, 250)
+    );
+  });
+
+  it("tells absent from invalid", () => {
+    expect(parseDate(undefined)).toBeUndefined();
+    const invalid = ["", "March 3", "2024/1/2", "1704153600000", "2024-13-01"];
+    for (const raw of invalid) expect(parseDate(raw)).toBeNaN();
+  });
+});
@@ -0,0 +1,96 @@
+import { RateLimiter, parseRetryAfter } from "../../src/utils/rateLimiter";
+
+describe("RateLimiter", () => {
+  let limiter: RateLimiter;
+  let granted: string[];
+
+  const take = (name: string, priority?: "interactive" | "background") =>
+    limiter.acquire(priority).then(() => {
+      granted.push(name);
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    limiter = new RateLimiter({
+      maxRequests: 3,
+      windowMs: 1000,
+      backgroundReserve: 1,
+    });
+    granted = [];
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it("grants at most maxRequests per sliding window", async () => {
+    for (const name of ["a", "b", "c", "d", "e"]) take(name);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(["a", "b", "c"]);
+    expect(limiter.getStatus().queued.interactive).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(granted).toHaveLength(3);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("serves interactive waiters before background ones", async () => {
+    for (const name of ["a", "b", "c"]) take(name);
+    take("warm-1", "background");
+    take("user-1");
+    take("warm-2", "background");
+    take("user-2");
+    await jest.advanceTimersByTimeAsync(0);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    // Background work may only use maxRequests - backgroundReserve slots
+    expect(granted.slice(3)).toEqual(["user-1", "user-2"]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(granted.slice(5)).toEqual(["warm-1", "warm-2"]);
+  });
+
+  it("keeps the reserve free for users", async () => {
+    take("warm-1", "background");
+    take("warm-2", "background");
+    take("warm-3", "background");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(["warm-1", "warm-2"]);
+
+    take("user");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(["warm-1", "warm-2", "user"]);
+  });
+
+  it("holds everyone back during a pause and never shortens it", async () => {
+    limiter.pauseUntil(2000);
+    limiter.pauseUntil(500);
+    take("a");
+    take("b", "background");
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(granted).toEqual([]);
+    expect(limiter.getStatus().pausedUntil).toBe(new Date(2000).toISOString());
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual(["a", "b"]);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  beforeEach(() => jest.useFakeTimers({ now: Date.UTC(2024, 0, 1) }));
+  afterEach(() => jest.useRealTimers());
+
+  it("reads delay-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(2)).toBe(2000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT")).toBe(5000);
+    expect(parseRetryAfter("Sun, 31 Dec 2023 23:00:00 GMT")).toBe(0);
+  });
+
+  it("returns null when the header is missing or unusable", () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter("")).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
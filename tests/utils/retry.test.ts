@@ -0,0 +1,91 @@
+import { RateLimiter } from "../../src/utils/rateLimiter";
+import { chunk, isRetryableError, retryRequest } from "../../src/utils/retry";
+
+const httpError = (status: number, headers: object = {}) =>
+  Object.assign(new Error(`HTTP ${status}`), {
+    response: { status, headers },
+  });
+
+describe("retry helpers", () => {
+  it("splits arrays into chunks", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+
+  it("retries network errors and gateway statuses only", () => {
+    expect(isRetryableError({ code: "ECONNRESET" })).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(404))).toBe(false);
+    expect(isRetryableError(new Error("bad json"))).toBe(false);
+  });
+
+  describe("retryRequest", () => {
+    const options = {
+      api: "test",
+      name: "Test API",
+      operation: "fetch",
+      context: "unit test",
+    };
+
+    beforeEach(() => jest.useFakeTimers({ now: 0 }));
+    afterEach(() => jest.useRealTimers());
+
+    it("backs off exponentially", async () => {
+      const request = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(502))
+        .mockRejectedValueOnce(httpError(502))
+        .mockResolvedValue("ok");
+
+      const result = retryRequest(request, options);
+      await jest.advanceTimersByTimeAsync(999);
+      expect(request).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(request).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(2000);
+
+      await expect(result).resolves.toBe("ok");
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it("waits out a 429 and pauses the limiter as long", async () => {
+      const limiter = new RateLimiter({
+        maxRequests: 10,
+        windowMs: 1000,
+        backgroundReserve: 0,
+      });
+      const pause = jest.spyOn(limiter, "pauseUntil");
+      const request = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(429, { "retry-after": "3" }))
+        .mockResolvedValue("ok");
+
+      const result = retryRequest(request, { ...options, limiter });
+      await jest.advanceTimersByTimeAsync(3000);
+
+      await expect(result).resolves.toBe("ok");
+      expect(pause).toHaveBeenCalledWith(3000);
+    });
+
+    it("gives up at once on errors not worth retrying", async () => {
+      const request = jest.fn().mockRejectedValue(httpError(404));
+
+      await expect(retryRequest(request, options)).rejects.toThrow(
+        "Test API unavailable: HTTP 404"
+      );
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it("gives up after the last attempt", async () => {
+      const request = jest.fn().mockRejectedValue({ code: "ETIMEDOUT" });
+
+      const result = retryRequest(request, { ...options, maxRetries: 2 });
+      const settled = expect(result).rejects.toThrow(/Test API unavailable/);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await settled;
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+  });
+});
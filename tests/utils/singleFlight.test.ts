@@ -0,0 +1,72 @@
+import { SingleFlight } from "../../src/utils/singleFlight";
+import { CityService } from "../../src/services/city.service";
+import { cacheService } from "../../src/services/cache.service";
+import { FakePollu, FakeWiki, towns } from "../helpers/fakes";
+import { PL } from "../helpers/countries";
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe("SingleFlight", () => {
+  it("shares one execution between concurrent callers", async () => {
+    const flights = new SingleFlight<number>();
+    const pending = deferred<number>();
+    const fn = jest.fn(() => pending.promise);
+
+    const a = flights.do("PL", fn);
+    const b = flights.do("PL", fn);
+    const other = flights.do("DE", async () => 2);
+    pending.resolve(1);
+
+    await expect(Promise.all([a, b, other])).resolves.toEqual([1, 1, 2]);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("hands the error to every waiter", async () => {
+    const flights = new SingleFlight<number>();
+    const pending = deferred<number>();
+
+    const a = flights.do("PL", () => pending.promise);
+    const b = flights.do("PL", () => pending.promise);
+    pending.reject(new Error("upstream down"));
+
+    await expect(a).rejects.toThrow("upstream down");
+    await expect(b).rejects.toThrow("upstream down");
+  });
+
+  it("releases the key once the call settles", async () => {
+    const flights = new SingleFlight<number>();
+    const fn = jest.fn(async () => 1);
+
+    await flights.do("PL", fn);
+    await flights.do("PL", fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("CityService crawl coalescing", () => {
+  beforeEach(() => cacheService.clearCache());
+
+  it("runs one upstream crawl for concurrent cache misses", async () => {
+    const pollu = new FakePollu({ PL: towns(8) });
+    const wiki = new FakeWiki();
+    const service = new CityService(pollu.asClient(), wiki.asClient());
+
+    const pages = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        service.getMostPollutedByCountry([PL], 3, 1)
+      )
+    );
+
+    expect(new Set(pages.map((p) => JSON.stringify(p.cities))).size).toBe(1);
+    expect(pollu.calls).toEqual([{ country: "PL", page: 1 }]);
+    expect(wiki.titles).toHaveLength(5);
+  });
+});